@@ -2,7 +2,11 @@
 // generally used by snapshots, but can affect specific tests
 process.env.TZ = 'UTC';
 
+const { grafanaESModules, nodeModulesToTransform } = require('./.config/jest/utils');
+
 module.exports = {
   // Jest configuration provided by Grafana scaffolding
   ...require('./.config/jest.config'),
+  // three.js addons (three/examples/jsm) are only published as ES modules
+  transformIgnorePatterns: [nodeModulesToTransform([...grafanaESModules, 'three/examples'])],
 };
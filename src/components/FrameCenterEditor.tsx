@@ -0,0 +1,25 @@
+import React from 'react';
+import { Select } from '@grafana/ui';
+import { StandardEditorProps, SelectableValue } from '@grafana/data';
+import { SimpleOptions } from '../types';
+
+interface FrameCenterEditorProps extends StandardEditorProps<string, any, SimpleOptions> {}
+
+export const FrameCenterEditor: React.FC<FrameCenterEditorProps> = ({ value, onChange, context }) => {
+  // 速度フィールドを持つSphereと3D Modelのみを候補にする
+  const options: Array<SelectableValue<string>> = (context.options?.objects || [])
+    .filter((obj) => obj.id && (obj.type === 'sphere' || obj.type === '3dmodel'))
+    .map((obj) => ({ value: obj.id, label: obj.name }));
+
+  const selectedOption = options.find(option => option.value === value) || null;
+
+  return (
+    <Select
+      value={selectedOption}
+      options={options}
+      onChange={(selectedOption) => onChange(selectedOption?.value || '')}
+      placeholder="Select center object"
+      isClearable
+    />
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { StandardEditorProps } from '@grafana/data';
 import { 
   Button, 
@@ -13,8 +13,11 @@ import {
   InlineFieldRow,
   RadioButtonGroup
 } from '@grafana/ui';
-import { Shape, ShapeType, DataField } from '../types';
+import { Shape, ShapeType, DataField, SphereShape, ModelShape, EllipsoidShape, InterpolationMode, TimeJoinMode, TrailMode, ModelFormat, ModelArticulation, ArticulationMode, PolylineShape, PolylineLineStyle, ColorSource } from '../types';
 import { DataFieldEditor } from './DataFieldEditor';
+import { getFieldOptions, getTimeFieldOptions } from './utils/CommonHelpers';
+import { ModelCache } from './utils/ModelCache';
+import { ModelLoader } from './utils/ModelLoader';
 
 interface ObjectsEditorProps extends StandardEditorProps<Shape[]> {}
 
@@ -40,6 +43,8 @@ const createNewShape = (type: ShapeType, id: string): Shape => {
         posX: createDefaultDataField(),
         posY: createDefaultDataField(),
         posZ: createDefaultDataField(),
+        interpolation: 'none' as const,
+        trailMode: 'off' as const,
         autoRadius: 'on' as const,
         radius: 1,
         autoScaleFactor: 1
@@ -56,6 +61,84 @@ const createNewShape = (type: ShapeType, id: string): Shape => {
         text: { sourceType: 'const', value: 'Text' },
         lineDirection: 'normal' as const
       };
+    case 'vector':
+      return {
+        ...baseShape,
+        type: 'vector',
+        color: '#ffff00',
+        posX: createDefaultDataField(),
+        posY: createDefaultDataField(),
+        posZ: createDefaultDataField(),
+        vX: { sourceType: 'const', value: '1' },
+        vY: createDefaultDataField(),
+        vZ: createDefaultDataField(),
+        lengthScale: 1,
+        showLabel: 'off' as const
+      };
+    case 'ellipsoid':
+      return {
+        ...baseShape,
+        type: 'ellipsoid',
+        color: '#00aaff',
+        opacity: 0.3,
+        posX: createDefaultDataField(),
+        posY: createDefaultDataField(),
+        posZ: createDefaultDataField(),
+        source: 'covariance' as const,
+        covXX: { sourceType: 'const', value: '1' },
+        covYY: { sourceType: 'const', value: '1' },
+        covZZ: { sourceType: 'const', value: '1' },
+        covXY: createDefaultDataField(),
+        covXZ: createDefaultDataField(),
+        covYZ: createDefaultDataField(),
+        sigmaLevel: 3
+      };
+    case 'sensorFov':
+      return {
+        ...baseShape,
+        type: 'sensorFov',
+        parentId: '',
+        color: '#ffaa00',
+        opacity: 0.2,
+        boresightX: 0,
+        boresightY: 0,
+        boresightZ: 1,
+        fovShape: 'circular' as const,
+        halfAngle: 10,
+        halfAngleX: 10,
+        halfAngleY: 10,
+        range: 1
+      };
+    case 'safetyZone':
+      return {
+        ...baseShape,
+        type: 'safetyZone',
+        zoneType: 'keepOut' as const,
+        targetId: '',
+        chaserId: '',
+        color: '#00ff88',
+        violationColor: '#ff0000',
+        opacity: 0.15,
+        radius: 1,
+        corridorAxisX: 0,
+        corridorAxisY: 0,
+        corridorAxisZ: 1,
+        corridorHalfAngle: 10,
+        corridorLength: 1
+      };
+    case 'eclipseCone':
+      return {
+        ...baseShape,
+        type: 'eclipseCone',
+        bodyId: '',
+        chaserId: '',
+        bodyRadius: 0,
+        sunAngularRadius: 0.267,
+        coneLength: 0,
+        umbraColor: '#4040ff',
+        penumbraColor: '#8080ff',
+        opacity: 0.2
+      };
     case 'polyline':
       return {
         ...baseShape,
@@ -80,6 +163,8 @@ const createNewShape = (type: ShapeType, id: string): Shape => {
         quatY: createDefaultDataField(),
         quatZ: createDefaultDataField(),
         quatW: { sourceType: 'const', value: '1' },
+        interpolation: 'none' as const,
+        trailMode: 'off' as const,
         autoScale: 'on' as const,
         scale: 1,
         autoScaleFactor: 1,
@@ -96,9 +181,308 @@ const ObjectsEditor: React.FC<ObjectsEditorProps> = ({ value = [], onChange, con
     value.length > 0 ? 0 : null
   );
 
+  // パネル側で3Dモデルの読み込みに失敗した場合にリストの表示を更新
+  const [, setFailureVersion] = useState(0);
+  useEffect(() => ModelCache.subscribeFailures(() => setFailureVersion(version => version + 1)), []);
+
   // contextからPanelDataを取得（DataFieldEditorで使用）
   const panelData = context?.data ? { series: context.data } as any : undefined;
 
+  // LVLH座標系の基準オブジェクトの場合は速度フィールドを常に表示
+  const isFrameCenter = (shape: Shape) =>
+    context?.options?.referenceFrame === 'lvlh' && context?.options?.frameCenterId === shape.id;
+
+  // 補間設定（SphereとModelで共通）
+  const renderInterpolationFields = <T extends SphereShape | ModelShape>(shape: T, updateShape: (updatedShape: T) => void) => (
+    <>
+      <InlineField label="Interpolation" labelWidth={16} tooltip="How positions are computed when the scene time falls between two samples">
+        <Select
+          width={20}
+          value={shape.interpolation || 'none'}
+          options={[
+            { label: 'None (previous sample)', value: 'none' },
+            { label: 'Linear', value: 'linear' },
+            { label: 'Hermite (velocity)', value: 'hermite' }
+          ]}
+          onChange={(option) => updateShape({ ...shape, interpolation: option.value as InterpolationMode })}
+        />
+      </InlineField>
+      {(shape.interpolation === 'hermite' || isFrameCenter(shape)) && (
+        <>
+          <div style={{ fontSize: '12px', color: '#888', marginLeft: '16px', fontStyle: 'italic' }}>
+            * Velocity in position units per second. Falls back to linear when not set.
+            {isFrameCenter(shape) && ' Also defines the LVLH axes of the scene.'}
+          </div>
+          <DataFieldEditor
+            label="Velocity X"
+            value={shape.velX || createDefaultDataField()}
+            onChange={(velX: DataField) => updateShape({ ...shape, velX })}
+            data={panelData}
+          />
+          <DataFieldEditor
+            label="Velocity Y"
+            value={shape.velY || createDefaultDataField()}
+            onChange={(velY: DataField) => updateShape({ ...shape, velY })}
+            data={panelData}
+          />
+          <DataFieldEditor
+            label="Velocity Z"
+            value={shape.velZ || createDefaultDataField()}
+            onChange={(velZ: DataField) => updateShape({ ...shape, velZ })}
+            data={panelData}
+          />
+        </>
+      )}
+    </>
+  );
+
+  // 可動部（名前付きノードの回転）の設定
+  const renderArticulationFields = (shape: ModelShape, updateShape: (updatedShape: ModelShape) => void) => {
+    const articulations = shape.articulations || [];
+    const updateArticulation = (index: number, articulation: ModelArticulation) =>
+      updateShape({ ...shape, articulations: articulations.map((item, i) => (i === index ? articulation : item)) });
+
+    return (
+      <>
+        <div style={{ marginTop: '8px', fontWeight: 'bold', fontSize: '12px' }}>Articulated Parts</div>
+        {articulations.map((articulation, index) => (
+          <div key={index} style={{ borderLeft: '2px solid #444', paddingLeft: '8px', marginTop: '4px' }}>
+            <InlineFieldRow>
+              <InlineField label="Node Name" labelWidth={16} tooltip="Name of the node in the glTF file (e.g. SolarArray_L)">
+                <Input
+                  width={24}
+                  value={articulation.nodeName}
+                  placeholder="Node name"
+                  onChange={(e) => updateArticulation(index, { ...articulation, nodeName: e.currentTarget.value })}
+                />
+              </InlineField>
+              <IconButton
+                name="trash-alt"
+                variant="destructive"
+                size="sm"
+                onClick={() => updateShape({ ...shape, articulations: articulations.filter((_, i) => i !== index) })}
+                tooltip="Remove part"
+              />
+            </InlineFieldRow>
+            <InlineField label="Drive" labelWidth={16} tooltip="Rotation from the node's rest pose in the glTF file">
+              <RadioButtonGroup
+                options={[
+                  { label: 'Axis + Angle', value: 'angle' },
+                  { label: 'Quaternion', value: 'quaternion' }
+                ]}
+                value={articulation.mode}
+                onChange={(value) => updateArticulation(index, { ...articulation, mode: value as ArticulationMode })}
+                size="sm"
+              />
+            </InlineField>
+            {articulation.mode === 'quaternion' ? (
+              <>
+                <DataFieldEditor
+                  label="Quaternion X"
+                  value={articulation.quatX || createDefaultDataField()}
+                  onChange={(quatX: DataField) => updateArticulation(index, { ...articulation, quatX })}
+                  data={panelData}
+                />
+                <DataFieldEditor
+                  label="Quaternion Y"
+                  value={articulation.quatY || createDefaultDataField()}
+                  onChange={(quatY: DataField) => updateArticulation(index, { ...articulation, quatY })}
+                  data={panelData}
+                />
+                <DataFieldEditor
+                  label="Quaternion Z"
+                  value={articulation.quatZ || createDefaultDataField()}
+                  onChange={(quatZ: DataField) => updateArticulation(index, { ...articulation, quatZ })}
+                  data={panelData}
+                />
+                <DataFieldEditor
+                  label="Quaternion W"
+                  value={articulation.quatW || { sourceType: 'const', value: '1' }}
+                  onChange={(quatW: DataField) => updateArticulation(index, { ...articulation, quatW })}
+                  data={panelData}
+                />
+              </>
+            ) : (
+              <>
+                <InlineFieldRow>
+                  <InlineField label="Axis" labelWidth={16} tooltip="Rotation axis in the node's parent frame">
+                    <Input
+                      type="number"
+                      width={8}
+                      value={articulation.axisX ?? 0}
+                      onChange={(e) => updateArticulation(index, { ...articulation, axisX: parseFloat(e.currentTarget.value) || 0 })}
+                      prefix="X"
+                    />
+                  </InlineField>
+                  <Input
+                    type="number"
+                    width={8}
+                    value={articulation.axisY ?? 0}
+                    onChange={(e) => updateArticulation(index, { ...articulation, axisY: parseFloat(e.currentTarget.value) || 0 })}
+                    prefix="Y"
+                  />
+                  <Input
+                    type="number"
+                    width={8}
+                    value={articulation.axisZ ?? 1}
+                    onChange={(e) => updateArticulation(index, { ...articulation, axisZ: parseFloat(e.currentTarget.value) || 0 })}
+                    prefix="Z"
+                  />
+                </InlineFieldRow>
+                <DataFieldEditor
+                  label="Angle"
+                  value={articulation.angle || createDefaultDataField()}
+                  onChange={(angle: DataField) => updateArticulation(index, { ...articulation, angle })}
+                  data={panelData}
+                />
+                <InlineField label="Angle Unit" labelWidth={16}>
+                  <RadioButtonGroup
+                    options={[
+                      { label: 'deg', value: 'deg' },
+                      { label: 'rad', value: 'rad' }
+                    ]}
+                    value={articulation.angleUnit || 'deg'}
+                    onChange={(value) => updateArticulation(index, { ...articulation, angleUnit: value as 'deg' | 'rad' })}
+                    size="sm"
+                  />
+                </InlineField>
+              </>
+            )}
+          </div>
+        ))}
+        <Button
+          size="sm"
+          variant="secondary"
+          icon="plus"
+          style={{ marginTop: '4px' }}
+          onClick={() =>
+            updateShape({
+              ...shape,
+              articulations: [
+                ...articulations,
+                { nodeName: '', mode: 'angle', axisX: 0, axisY: 0, axisZ: 1, angle: createDefaultDataField(), angleUnit: 'deg' }
+              ]
+            })
+          }
+        >
+          Add Part
+        </Button>
+      </>
+    );
+  };
+
+  // 軌跡設定（SphereとModelで共通）
+  const renderTrailFields = <T extends SphereShape | ModelShape>(shape: T, updateShape: (updatedShape: T) => void) => (
+    <>
+      <InlineField label="Trail" labelWidth={16} tooltip="Draw the path leading up to the scene time">
+        <Select
+          width={20}
+          value={shape.trailMode || 'off'}
+          options={[
+            { label: 'Off', value: 'off' },
+            { label: 'Past minutes', value: 'duration' },
+            { label: 'Past samples', value: 'samples' }
+          ]}
+          onChange={(option) => updateShape({ ...shape, trailMode: option.value as TrailMode })}
+        />
+      </InlineField>
+      {shape.trailMode && shape.trailMode !== 'off' && (
+        <>
+          <InlineField label={shape.trailMode === 'samples' ? 'Trail Samples' : 'Trail Minutes'} labelWidth={16}>
+            <Input
+              type="number"
+              width={20}
+              value={shape.trailLength ?? 10}
+              onChange={(e) => updateShape({ ...shape, trailLength: Math.max(0, parseFloat(e.currentTarget.value) || 0) })}
+              placeholder="10"
+            />
+          </InlineField>
+          <InlineField label="Trail Color" labelWidth={16}>
+            <ColorPicker
+              color={shape.trailColor || (shape.type === 'sphere' ? shape.color : '#ffffff')}
+              onChange={(trailColor) => updateShape({ ...shape, trailColor })}
+            />
+          </InlineField>
+          <InlineField label="Fade" labelWidth={16}>
+            <Switch
+              value={shape.trailFade !== 'off'}
+              onChange={(e) => updateShape({ ...shape, trailFade: e.currentTarget.checked ? 'on' : 'off' })}
+            />
+          </InlineField>
+          <InlineField label="Tick Interval (s)" labelWidth={16} tooltip="Place a marker on the trail every N seconds (0 to disable)">
+            <Input
+              type="number"
+              width={20}
+              value={shape.trailTickInterval || 0}
+              onChange={(e) => updateShape({ ...shape, trailTickInterval: Math.max(0, parseFloat(e.currentTarget.value) || 0) })}
+              placeholder="0"
+            />
+          </InlineField>
+        </>
+      )}
+    </>
+  );
+
+  // フィールドの値による配色（SphereとPolylineで共通、配色・しきい値はパネルのfieldConfigで設定）
+  const renderColorSourceFields = <T extends SphereShape | PolylineShape>(shape: T, updateShape: (updatedShape: T) => void) => (
+    <>
+      <InlineField label="Color By" labelWidth={16} tooltip="Color by the value of a field, using the Color scheme and Thresholds in the panel's Standard options">
+        <RadioButtonGroup
+          options={[
+            { label: 'Fixed', value: 'fixed' },
+            { label: 'Field', value: 'field' }
+          ]}
+          value={shape.colorSource || 'fixed'}
+          onChange={(value) => updateShape({ ...shape, colorSource: value as ColorSource })}
+          size="sm"
+        />
+      </InlineField>
+      {shape.colorSource === 'field' && (
+        <InlineField label="Color Field" labelWidth={16} tooltip="Numeric or time field (e.g. range rate); polylines get a per-point gradient">
+          <Select
+            width={25}
+            value={shape.colorField || null}
+            options={getFieldOptions(panelData)}
+            onChange={(option) => updateShape({ ...shape, colorField: option?.value })}
+            placeholder="Select field"
+            allowCustomValue
+          />
+        </InlineField>
+      )}
+    </>
+  );
+
+  // 時刻フィールドの紐付け（全タイプ共通）
+  const renderTimeFields = (shape: Shape, index: number) => (
+    <>
+      <InlineField label="Time Field" labelWidth={16} tooltip="Time field that defines when each value was sampled. Fields from other series are aligned to it.">
+        <Select
+          width={25}
+          value={shape.timeField || null}
+          options={getTimeFieldOptions(panelData)}
+          onChange={(option) => updateObject(index, { ...shape, timeField: option?.value })}
+          placeholder="Per series"
+          isClearable
+          allowCustomValue
+        />
+      </InlineField>
+      {shape.timeField && (
+        <InlineField label="Time Join" labelWidth={16} tooltip="How samples from series with a different cadence are matched to the time field">
+          <Select
+            width={20}
+            value={shape.timeJoin || 'previous'}
+            options={[
+              { label: 'Previous', value: 'previous' },
+              { label: 'Nearest', value: 'nearest' },
+              { label: 'Interpolated', value: 'linear' }
+            ]}
+            onChange={(option) => updateObject(index, { ...shape, timeJoin: option.value as TimeJoinMode })}
+          />
+        </InlineField>
+      )}
+    </>
+  );
+
   const renderShapeSpecificFields = (shape: Shape, index: number) => {
     const updateShape = (updatedShape: Shape) => updateObject(index, updatedShape);
 
@@ -112,6 +496,7 @@ const ObjectsEditor: React.FC<ObjectsEditorProps> = ({ value = [], onChange, con
                 onChange={(color) => updateShape({ ...shape, color })}
               />
             </InlineField>
+            {renderColorSourceFields(shape, updateShape)}
             <DataFieldEditor
               label="Position X"
               value={shape.posX}
@@ -130,6 +515,8 @@ const ObjectsEditor: React.FC<ObjectsEditorProps> = ({ value = [], onChange, con
               onChange={(posZ: DataField) => updateShape({ ...shape, posZ })}
               data={panelData}
             />
+            {renderInterpolationFields(shape, updateShape)}
+            {renderTrailFields(shape, updateShape)}
             <InlineField label="Auto Radius" labelWidth={16}>
               <Switch
                 value={shape.autoRadius === 'on'}
@@ -218,20 +605,34 @@ const ObjectsEditor: React.FC<ObjectsEditorProps> = ({ value = [], onChange, con
       case 'polyline':
         return (
           <VerticalGroup spacing="sm">
-            <InlineField label="Stroke Size" labelWidth={16}>
+            <InlineField label="Stroke Size" labelWidth={16} tooltip="Line width in screen pixels">
               <Input
                 type="number"
                 width={20}
+                min={1}
                 value={shape.strokeSize}
                 onChange={(e) => updateShape({ ...shape, strokeSize: parseInt(e.currentTarget.value) || 2 })}
               />
             </InlineField>
+            <InlineField label="Line Style" labelWidth={16}>
+              <RadioButtonGroup
+                options={[
+                  { label: 'Solid', value: 'solid' },
+                  { label: 'Dashed', value: 'dashed' },
+                  { label: 'Dotted', value: 'dotted' }
+                ]}
+                value={shape.lineStyle || 'solid'}
+                onChange={(value) => updateShape({ ...shape, lineStyle: value as PolylineLineStyle })}
+                size="sm"
+              />
+            </InlineField>
             <InlineField label="Stroke Color" labelWidth={16}>
               <ColorPicker
                 color={shape.strokeColor}
                 onChange={(strokeColor) => updateShape({ ...shape, strokeColor })}
               />
             </InlineField>
+            {renderColorSourceFields(shape, updateShape)}
             <DataFieldEditor
               label="Points X"
               value={shape.pointsX}
@@ -262,6 +663,42 @@ const ObjectsEditor: React.FC<ObjectsEditorProps> = ({ value = [], onChange, con
                 onChange={(e) => updateShape({ ...shape, smoothCurve: e.currentTarget.checked ? 'on' : 'off' })}
               />
             </InlineField>
+            <InlineField label="Future Split" labelWidth={16} tooltip="Draw points after this time as the planned/predicted part of the trajectory">
+              <Select
+                width={20}
+                value={shape.futureSplit || 'off'}
+                options={[
+                  { label: 'Off', value: 'off' },
+                  { label: 'Now', value: 'now' },
+                  { label: 'Scene time', value: 'sceneTime' }
+                ]}
+                onChange={(option) => updateShape({ ...shape, futureSplit: option.value as 'off' | 'now' | 'sceneTime' })}
+              />
+            </InlineField>
+            {shape.futureSplit && shape.futureSplit !== 'off' && (
+              <>
+                <InlineField label="Future Style" labelWidth={16}>
+                  <RadioButtonGroup
+                    options={[
+                      { label: 'Dashed', value: 'dashed' },
+                      { label: 'Color', value: 'color' }
+                    ]}
+                    value={shape.futureStyle || 'dashed'}
+                    onChange={(value) => updateShape({ ...shape, futureStyle: value as 'dashed' | 'color' })}
+                    size="sm"
+                  />
+                </InlineField>
+                <InlineField label="Future Color" labelWidth={16}>
+                  <ColorPicker
+                    color={shape.futureColor || ((shape.futureStyle || 'dashed') === 'dashed' ? shape.strokeColor : '#888888')}
+                    onChange={(futureColor) => updateShape({ ...shape, futureColor })}
+                  />
+                </InlineField>
+                <div style={{ fontSize: '12px', color: '#888', marginLeft: '16px', fontStyle: 'italic' }}>
+                  * Requires a time field for the points. Scene time falls back to now when the time cursor is live.
+                </div>
+              </>
+            )}
           </VerticalGroup>
         );
       
@@ -282,6 +719,22 @@ const ObjectsEditor: React.FC<ObjectsEditorProps> = ({ value = [], onChange, con
                 onChange={(e) => updateShape({ ...modelShape, url: e.currentTarget.value })}
               />
             </InlineField>
+            <InlineField label="Model Format" labelWidth={16} tooltip="Auto picks the loader from the file extension (.gltf/.glb, .obj, .stl, .ply, .icq, .plt/.tab)">
+              <Select
+                width={20}
+                value={modelShape.modelFormat || 'auto'}
+                options={[
+                  { label: 'Auto (extension)', value: 'auto' },
+                  { label: 'glTF / GLB', value: 'gltf' },
+                  { label: 'OBJ', value: 'obj' },
+                  { label: 'STL', value: 'stl' },
+                  { label: 'PLY', value: 'ply' },
+                  { label: 'ICQ (shape model)', value: 'icq' },
+                  { label: 'SPC plate (vertex-facet)', value: 'plate' }
+                ]}
+                onChange={(option) => updateShape({ ...modelShape, modelFormat: option.value as ModelFormat })}
+              />
+            </InlineField>
             {(!modelShape.url || modelShape.url.trim() === '') && (
               <div style={{ 
                 fontSize: '12px', 
@@ -360,6 +813,9 @@ const ObjectsEditor: React.FC<ObjectsEditorProps> = ({ value = [], onChange, con
               onChange={(quatW: DataField) => updateShape({ ...modelShape, quatW })}
               data={panelData}
             />
+            {renderArticulationFields(modelShape, updateShape)}
+            {renderInterpolationFields(modelShape, updateShape)}
+            {renderTrailFields(modelShape, updateShape)}
             <InlineField label="Auto Scale" labelWidth={16}>
               <Switch
                 value={modelShape.autoScale === 'on'}
@@ -387,6 +843,521 @@ const ObjectsEditor: React.FC<ObjectsEditorProps> = ({ value = [], onChange, con
                 />
               </InlineField>
             )}
+            <InlineField label="Keep Materials" labelWidth={16} tooltip="Use the model's materials as loaded, without the lighting adjustments">
+              <Switch
+                value={modelShape.keepOriginalMaterials === 'on'}
+                onChange={(e) => updateShape({ ...modelShape, keepOriginalMaterials: e.currentTarget.checked ? 'on' : 'off' })}
+              />
+            </InlineField>
+            <InlineFieldRow>
+              <InlineField label="Tint Color" labelWidth={16} tooltip="Multiplied with the model's colors">
+                <ColorPicker
+                  color={modelShape.tintColor || '#ffffff'}
+                  onChange={(tintColor) => updateShape({ ...modelShape, tintColor })}
+                />
+              </InlineField>
+              {modelShape.tintColor && (
+                <IconButton
+                  name="times"
+                  size="sm"
+                  onClick={() => updateShape({ ...modelShape, tintColor: undefined })}
+                  tooltip="Clear tint"
+                />
+              )}
+            </InlineFieldRow>
+            <InlineField label="Opacity" labelWidth={16}>
+              <Input
+                type="number"
+                width={20}
+                min={0}
+                max={1}
+                step={0.1}
+                value={modelShape.opacity ?? 1}
+                onChange={(e) => {
+                  const opacity = parseFloat(e.currentTarget.value);
+                  updateShape({ ...modelShape, opacity: isNaN(opacity) ? 1 : Math.min(Math.max(opacity, 0), 1) });
+                }}
+              />
+            </InlineField>
+            <InlineField label="Wireframe" labelWidth={16}>
+              <Switch
+                value={modelShape.wireframe === 'on'}
+                onChange={(e) => updateShape({ ...modelShape, wireframe: e.currentTarget.checked ? 'on' : 'off' })}
+              />
+            </InlineField>
+            <InlineField label="Flat Shading" labelWidth={16}>
+              <Switch
+                value={modelShape.flatShading === 'on'}
+                onChange={(e) => updateShape({ ...modelShape, flatShading: e.currentTarget.checked ? 'on' : 'off' })}
+              />
+            </InlineField>
+          </VerticalGroup>
+        );
+
+      case 'vector':
+        return (
+          <VerticalGroup spacing="sm">
+            <InlineField label="Color" labelWidth={16}>
+              <ColorPicker
+                color={shape.color}
+                onChange={(color) => updateShape({ ...shape, color })}
+              />
+            </InlineField>
+            <DataFieldEditor
+              label="Position X"
+              value={shape.posX}
+              onChange={(posX: DataField) => updateShape({ ...shape, posX })}
+              data={panelData}
+            />
+            <DataFieldEditor
+              label="Position Y"
+              value={shape.posY}
+              onChange={(posY: DataField) => updateShape({ ...shape, posY })}
+              data={panelData}
+            />
+            <DataFieldEditor
+              label="Position Z"
+              value={shape.posZ}
+              onChange={(posZ: DataField) => updateShape({ ...shape, posZ })}
+              data={panelData}
+            />
+            <DataFieldEditor
+              label="Vector X"
+              value={shape.vX}
+              onChange={(vX: DataField) => updateShape({ ...shape, vX })}
+              data={panelData}
+            />
+            <DataFieldEditor
+              label="Vector Y"
+              value={shape.vY}
+              onChange={(vY: DataField) => updateShape({ ...shape, vY })}
+              data={panelData}
+            />
+            <DataFieldEditor
+              label="Vector Z"
+              value={shape.vZ}
+              onChange={(vZ: DataField) => updateShape({ ...shape, vZ })}
+              data={panelData}
+            />
+            <InlineField label="Length Scale" labelWidth={16} tooltip="Arrow length = vector magnitude × scale">
+              <Input
+                type="number"
+                width={20}
+                value={shape.lengthScale ?? 1}
+                onChange={(e) => updateShape({ ...shape, lengthScale: parseFloat(e.currentTarget.value) || 1 })}
+                placeholder="1.0"
+              />
+            </InlineField>
+            <InlineField label="Magnitude Label" labelWidth={16}>
+              <Switch
+                value={shape.showLabel === 'on'}
+                onChange={(e) => updateShape({ ...shape, showLabel: e.currentTarget.checked ? 'on' : 'off' })}
+              />
+            </InlineField>
+            {shape.showLabel === 'on' && (
+              <InlineField label="Label Unit" labelWidth={16}>
+                <Input
+                  width={20}
+                  value={shape.labelUnit || ''}
+                  onChange={(e) => updateShape({ ...shape, labelUnit: e.currentTarget.value })}
+                  placeholder="m/s"
+                />
+              </InlineField>
+            )}
+          </VerticalGroup>
+        );
+
+      case 'ellipsoid':
+        const ellipsoidFields: Array<[keyof EllipsoidShape, string, string]> = shape.source === 'sigma' ? [
+          ['sigmaX', 'Sigma X', '0'],
+          ['sigmaY', 'Sigma Y', '0'],
+          ['sigmaZ', 'Sigma Z', '0'],
+          ['quatX', 'Quaternion X', '0'],
+          ['quatY', 'Quaternion Y', '0'],
+          ['quatZ', 'Quaternion Z', '0'],
+          ['quatW', 'Quaternion W', '1']
+        ] : [
+          ['covXX', 'Cov XX', '0'],
+          ['covYY', 'Cov YY', '0'],
+          ['covZZ', 'Cov ZZ', '0'],
+          ['covXY', 'Cov XY', '0'],
+          ['covXZ', 'Cov XZ', '0'],
+          ['covYZ', 'Cov YZ', '0']
+        ];
+        return (
+          <VerticalGroup spacing="sm">
+            <InlineField label="Color" labelWidth={16}>
+              <ColorPicker
+                color={shape.color}
+                onChange={(color) => updateShape({ ...shape, color })}
+              />
+            </InlineField>
+            <InlineField label="Opacity" labelWidth={16}>
+              <Input
+                type="number"
+                width={20}
+                min={0}
+                max={1}
+                step={0.05}
+                value={shape.opacity ?? 0.3}
+                onChange={(e) => updateShape({ ...shape, opacity: Math.min(1, Math.max(0, parseFloat(e.currentTarget.value) || 0)) })}
+              />
+            </InlineField>
+            <DataFieldEditor
+              label="Position X"
+              value={shape.posX}
+              onChange={(posX: DataField) => updateShape({ ...shape, posX })}
+              data={panelData}
+            />
+            <DataFieldEditor
+              label="Position Y"
+              value={shape.posY}
+              onChange={(posY: DataField) => updateShape({ ...shape, posY })}
+              data={panelData}
+            />
+            <DataFieldEditor
+              label="Position Z"
+              value={shape.posZ}
+              onChange={(posZ: DataField) => updateShape({ ...shape, posZ })}
+              data={panelData}
+            />
+            <InlineField label="Axes From" labelWidth={16}>
+              <RadioButtonGroup
+                options={[
+                  { label: 'Covariance', value: 'covariance' },
+                  { label: 'Sigma + Quaternion', value: 'sigma' }
+                ]}
+                value={shape.source || 'covariance'}
+                onChange={(value) => updateShape({ ...shape, source: value as 'covariance' | 'sigma' })}
+                size="sm"
+              />
+            </InlineField>
+            {ellipsoidFields.map(([key, label, defaultValue]) => (
+              <DataFieldEditor
+                key={key}
+                label={label}
+                value={(shape[key] as DataField | undefined) || { sourceType: 'const', value: defaultValue }}
+                onChange={(field: DataField) => updateShape({ ...shape, [key]: field })}
+                data={panelData}
+              />
+            ))}
+            <InlineField label="Sigma Level" labelWidth={16}>
+              <RadioButtonGroup
+                options={[
+                  { label: '1σ', value: 1 },
+                  { label: '2σ', value: 2 },
+                  { label: '3σ', value: 3 }
+                ]}
+                value={shape.sigmaLevel || 1}
+                onChange={(value) => updateShape({ ...shape, sigmaLevel: value as number })}
+                size="sm"
+              />
+            </InlineField>
+          </VerticalGroup>
+        );
+
+      case 'sensorFov':
+        return (
+          <VerticalGroup spacing="sm">
+            <InlineField label="Parent Model" labelWidth={16} tooltip="The FOV follows the position and attitude of this 3D model">
+              <Select
+                width={25}
+                value={shape.parentId || null}
+                options={value
+                  .filter(obj => obj.type === '3dmodel')
+                  .map(obj => ({ label: obj.name, value: obj.id }))}
+                onChange={(option) => updateShape({ ...shape, parentId: option?.value || '' })}
+                placeholder="Select a 3D model"
+              />
+            </InlineField>
+            <InlineField label="Color" labelWidth={16}>
+              <ColorPicker
+                color={shape.color}
+                onChange={(color) => updateShape({ ...shape, color })}
+              />
+            </InlineField>
+            <InlineField label="Opacity" labelWidth={16}>
+              <Input
+                type="number"
+                width={20}
+                min={0}
+                max={1}
+                step={0.05}
+                value={shape.opacity ?? 0.2}
+                onChange={(e) => updateShape({ ...shape, opacity: Math.min(1, Math.max(0, parseFloat(e.currentTarget.value) || 0)) })}
+              />
+            </InlineField>
+            <InlineFieldRow>
+              <InlineField label="Boresight" labelWidth={16} tooltip="Boresight direction in the model body frame">
+                <Input
+                  type="number"
+                  width={8}
+                  value={shape.boresightX ?? 0}
+                  onChange={(e) => updateShape({ ...shape, boresightX: parseFloat(e.currentTarget.value) || 0 })}
+                  prefix="X"
+                />
+              </InlineField>
+              <Input
+                type="number"
+                width={8}
+                value={shape.boresightY ?? 0}
+                onChange={(e) => updateShape({ ...shape, boresightY: parseFloat(e.currentTarget.value) || 0 })}
+                prefix="Y"
+              />
+              <Input
+                type="number"
+                width={8}
+                value={shape.boresightZ ?? 1}
+                onChange={(e) => updateShape({ ...shape, boresightZ: parseFloat(e.currentTarget.value) || 0 })}
+                prefix="Z"
+              />
+            </InlineFieldRow>
+            <InlineField label="FOV Shape" labelWidth={16}>
+              <RadioButtonGroup
+                options={[
+                  { label: 'Circular', value: 'circular' },
+                  { label: 'Rectangular', value: 'rectangular' }
+                ]}
+                value={shape.fovShape || 'circular'}
+                onChange={(value) => updateShape({ ...shape, fovShape: value as 'circular' | 'rectangular' })}
+                size="sm"
+              />
+            </InlineField>
+            {shape.fovShape === 'rectangular' ? (
+              <>
+                <InlineField label="Half Angle X (deg)" labelWidth={16}>
+                  <Input
+                    type="number"
+                    width={20}
+                    value={shape.halfAngleX ?? 10}
+                    onChange={(e) => updateShape({ ...shape, halfAngleX: parseFloat(e.currentTarget.value) || 0 })}
+                  />
+                </InlineField>
+                <InlineField label="Half Angle Y (deg)" labelWidth={16}>
+                  <Input
+                    type="number"
+                    width={20}
+                    value={shape.halfAngleY ?? 10}
+                    onChange={(e) => updateShape({ ...shape, halfAngleY: parseFloat(e.currentTarget.value) || 0 })}
+                  />
+                </InlineField>
+              </>
+            ) : (
+              <InlineField label="Half Angle (deg)" labelWidth={16}>
+                <Input
+                  type="number"
+                  width={20}
+                  value={shape.halfAngle ?? 10}
+                  onChange={(e) => updateShape({ ...shape, halfAngle: parseFloat(e.currentTarget.value) || 0 })}
+                />
+              </InlineField>
+            )}
+            <InlineField label="Range" labelWidth={16} tooltip="Length of the FOV volume in position units">
+              <Input
+                type="number"
+                width={20}
+                value={shape.range ?? 1}
+                onChange={(e) => updateShape({ ...shape, range: parseFloat(e.currentTarget.value) || 0 })}
+              />
+            </InlineField>
+            <div style={{ fontSize: '12px', color: '#888', marginLeft: '16px', fontStyle: 'italic' }}>
+              * For a rectangular FOV, X/Y are the body axes after rotating +Z onto the boresight.
+            </div>
+          </VerticalGroup>
+        );
+
+      case 'safetyZone':
+        const zoneObjectOptions = value
+          .filter(obj => obj.id !== shape.id && obj.type !== 'safetyZone')
+          .map(obj => ({ label: obj.name, value: obj.id }));
+        return (
+          <VerticalGroup spacing="sm">
+            <InlineField label="Zone Type" labelWidth={16}>
+              <RadioButtonGroup
+                options={[
+                  { label: 'Keep-out Sphere', value: 'keepOut' },
+                  { label: 'Approach Corridor', value: 'corridor' }
+                ]}
+                value={shape.zoneType || 'keepOut'}
+                onChange={(value) => updateShape({ ...shape, zoneType: value as 'keepOut' | 'corridor' })}
+                size="sm"
+              />
+            </InlineField>
+            <InlineField label="Target Object" labelWidth={16} tooltip="The zone is centered on this object">
+              <Select
+                width={25}
+                value={shape.targetId || null}
+                options={zoneObjectOptions}
+                onChange={(option) => updateShape({ ...shape, targetId: option?.value || '' })}
+                placeholder="Select an object"
+              />
+            </InlineField>
+            <InlineField label="Chaser Object" labelWidth={16} tooltip="Object whose position is checked against the zone">
+              <Select
+                width={25}
+                value={shape.chaserId || null}
+                options={zoneObjectOptions}
+                onChange={(option) => updateShape({ ...shape, chaserId: option?.value || '' })}
+                placeholder="Select an object"
+              />
+            </InlineField>
+            <InlineField label="Color" labelWidth={16}>
+              <ColorPicker
+                color={shape.color}
+                onChange={(color) => updateShape({ ...shape, color })}
+              />
+            </InlineField>
+            <InlineField label="Violation Color" labelWidth={16}>
+              <ColorPicker
+                color={shape.violationColor || '#ff0000'}
+                onChange={(violationColor) => updateShape({ ...shape, violationColor })}
+              />
+            </InlineField>
+            <InlineField label="Opacity" labelWidth={16}>
+              <Input
+                type="number"
+                width={20}
+                min={0}
+                max={1}
+                step={0.05}
+                value={shape.opacity ?? 0.15}
+                onChange={(e) => updateShape({ ...shape, opacity: Math.min(1, Math.max(0, parseFloat(e.currentTarget.value) || 0)) })}
+              />
+            </InlineField>
+            {shape.zoneType === 'corridor' ? (
+              <>
+                <InlineFieldRow>
+                  <InlineField label="Corridor Axis" labelWidth={16} tooltip="Approach axis in the target body frame, pointing away from the target">
+                    <Input
+                      type="number"
+                      width={8}
+                      value={shape.corridorAxisX ?? 0}
+                      onChange={(e) => updateShape({ ...shape, corridorAxisX: parseFloat(e.currentTarget.value) || 0 })}
+                      prefix="X"
+                    />
+                  </InlineField>
+                  <Input
+                    type="number"
+                    width={8}
+                    value={shape.corridorAxisY ?? 0}
+                    onChange={(e) => updateShape({ ...shape, corridorAxisY: parseFloat(e.currentTarget.value) || 0 })}
+                    prefix="Y"
+                  />
+                  <Input
+                    type="number"
+                    width={8}
+                    value={shape.corridorAxisZ ?? 1}
+                    onChange={(e) => updateShape({ ...shape, corridorAxisZ: parseFloat(e.currentTarget.value) || 0 })}
+                    prefix="Z"
+                  />
+                </InlineFieldRow>
+                <InlineField label="Half Angle (deg)" labelWidth={16}>
+                  <Input
+                    type="number"
+                    width={20}
+                    value={shape.corridorHalfAngle ?? 10}
+                    onChange={(e) => updateShape({ ...shape, corridorHalfAngle: parseFloat(e.currentTarget.value) || 0 })}
+                  />
+                </InlineField>
+                <InlineField label="Length" labelWidth={16}>
+                  <Input
+                    type="number"
+                    width={20}
+                    value={shape.corridorLength ?? 1}
+                    onChange={(e) => updateShape({ ...shape, corridorLength: parseFloat(e.currentTarget.value) || 0 })}
+                  />
+                </InlineField>
+              </>
+            ) : (
+              <InlineField label="Radius" labelWidth={16}>
+                <Input
+                  type="number"
+                  width={20}
+                  value={shape.radius ?? 1}
+                  onChange={(e) => updateShape({ ...shape, radius: parseFloat(e.currentTarget.value) || 0 })}
+                />
+              </InlineField>
+            )}
+          </VerticalGroup>
+        );
+
+      case 'eclipseCone':
+        const bodyObjectOptions = value
+          .filter(obj => obj.id !== shape.id && (obj.type === 'sphere' || obj.type === '3dmodel'))
+          .map(obj => ({ label: obj.name, value: obj.id }));
+        const eclipseChaserOptions = value
+          .filter(obj => obj.id !== shape.id && obj.id !== shape.bodyId && obj.type !== 'eclipseCone')
+          .map(obj => ({ label: obj.name, value: obj.id }));
+        return (
+          <VerticalGroup spacing="sm">
+            <InlineField label="Body Object" labelWidth={16} tooltip="Body that casts the shadow away from the sun direction (Lighting Settings)">
+              <Select
+                width={25}
+                value={shape.bodyId || null}
+                options={bodyObjectOptions}
+                onChange={(option) => updateShape({ ...shape, bodyId: option?.value || '' })}
+                placeholder="Select an object"
+              />
+            </InlineField>
+            <InlineField label="Chaser Object" labelWidth={16} tooltip="Object flagged when it is inside the umbra or penumbra">
+              <Select
+                width={25}
+                value={shape.chaserId || null}
+                options={eclipseChaserOptions}
+                onChange={(option) => updateShape({ ...shape, chaserId: option?.value || '' })}
+                placeholder="Select an object"
+              />
+            </InlineField>
+            <InlineField label="Body Radius" labelWidth={16} tooltip="0 uses the sphere radius or the model bounding radius">
+              <Input
+                type="number"
+                width={20}
+                min={0}
+                value={shape.bodyRadius ?? 0}
+                onChange={(e) => updateShape({ ...shape, bodyRadius: Math.max(0, parseFloat(e.currentTarget.value) || 0) })}
+              />
+            </InlineField>
+            <InlineField label="Sun Radius (deg)" labelWidth={16} tooltip="Apparent angular radius of the sun seen from the body (0.267 at 1 AU)">
+              <Input
+                type="number"
+                width={20}
+                step={0.01}
+                value={shape.sunAngularRadius ?? 0.267}
+                onChange={(e) => updateShape({ ...shape, sunAngularRadius: parseFloat(e.currentTarget.value) || 0 })}
+              />
+            </InlineField>
+            <InlineField label="Penumbra Length" labelWidth={16} tooltip="Length of the drawn penumbra. 0 uses the umbra length">
+              <Input
+                type="number"
+                width={20}
+                min={0}
+                value={shape.coneLength ?? 0}
+                onChange={(e) => updateShape({ ...shape, coneLength: Math.max(0, parseFloat(e.currentTarget.value) || 0) })}
+              />
+            </InlineField>
+            <InlineField label="Umbra Color" labelWidth={16}>
+              <ColorPicker
+                color={shape.umbraColor || '#4040ff'}
+                onChange={(umbraColor) => updateShape({ ...shape, umbraColor })}
+              />
+            </InlineField>
+            <InlineField label="Penumbra Color" labelWidth={16}>
+              <ColorPicker
+                color={shape.penumbraColor || '#8080ff'}
+                onChange={(penumbraColor) => updateShape({ ...shape, penumbraColor })}
+              />
+            </InlineField>
+            <InlineField label="Opacity" labelWidth={16}>
+              <Input
+                type="number"
+                width={20}
+                min={0}
+                max={1}
+                step={0.05}
+                value={shape.opacity ?? 0.2}
+                onChange={(e) => updateShape({ ...shape, opacity: Math.min(1, Math.max(0, parseFloat(e.currentTarget.value) || 0)) })}
+              />
+            </InlineField>
           </VerticalGroup>
         );
       
@@ -443,7 +1414,12 @@ const ObjectsEditor: React.FC<ObjectsEditorProps> = ({ value = [], onChange, con
                 { label: 'Sphere', value: 'sphere' },
                 { label: 'Annotation', value: 'annotation' },
                 { label: 'Polyline', value: 'polyline' },
-                { label: '3D Model', value: '3dmodel' }
+                { label: '3D Model', value: '3dmodel' },
+                { label: 'Vector', value: 'vector' },
+                { label: 'Ellipsoid', value: 'ellipsoid' },
+                { label: 'Sensor FOV', value: 'sensorFov' },
+                { label: 'Safety Zone', value: 'safetyZone' },
+                { label: 'Eclipse Cone', value: 'eclipseCone' }
               ]}
               onChange={(option) => setSelectedType(option.value as ShapeType)}
             />
@@ -498,7 +1474,9 @@ const ObjectsEditor: React.FC<ObjectsEditorProps> = ({ value = [], onChange, con
                           borderRadius: '2px',
                           backgroundColor: shape.type === 'sphere' ? shape.color : 
                                          shape.type === 'annotation' ? shape.textColor :
-                                         shape.type === 'polyline' ? shape.strokeColor : '#888'
+                                         shape.type === 'polyline' ? shape.strokeColor :
+                                         shape.type === 'vector' || shape.type === 'ellipsoid' || shape.type === 'sensorFov' || shape.type === 'safetyZone' ? shape.color :
+                                         shape.type === 'eclipseCone' ? shape.umbraColor : '#888'
                         }} />
                         <span style={{ fontWeight: selectedObjectIndex === index ? 'bold' : 'normal' }}>
                           {shape.name}
@@ -510,6 +1488,17 @@ const ObjectsEditor: React.FC<ObjectsEditorProps> = ({ value = [], onChange, con
                         }}>
                           ({shape.type})
                         </span>
+                        {shape.type === '3dmodel' && shape.url && (() => {
+                          const failure = ModelCache.getFailure(shape.url, ModelLoader.resolveFormat(shape.url, shape.modelFormat));
+                          return failure && (
+                            <span
+                              style={{ fontSize: '11px', color: '#ff5555' }}
+                              title={`Failed to load${failure.httpStatus ? ` (HTTP ${failure.httpStatus})` : ''}: ${failure.message}`}
+                            >
+                              ⚠ Load failed
+                            </span>
+                          );
+                        })()}
                       </HorizontalGroup>
                       <HorizontalGroup spacing="xs">
                         <Switch
@@ -562,6 +1551,7 @@ const ObjectsEditor: React.FC<ObjectsEditorProps> = ({ value = [], onChange, con
                         />
                       </InlineField>
                     </InlineFieldRow>
+                    {renderTimeFields(value[selectedObjectIndex], selectedObjectIndex)}
                     {renderShapeSpecificFields(value[selectedObjectIndex], selectedObjectIndex)}
                   </VerticalGroup>
                 </div>
@@ -0,0 +1,25 @@
+import React from 'react';
+import { Select } from '@grafana/ui';
+import { StandardEditorProps, SelectableValue } from '@grafana/data';
+import { SimpleOptions } from '../types';
+
+interface ShadowCasterEditorProps extends StandardEditorProps<string, any, SimpleOptions> {}
+
+export const ShadowCasterEditor: React.FC<ShadowCasterEditorProps> = ({ value, onChange, context }) => {
+  // 形状を持つSphereと3D Modelのみを候補にする（ターゲット自身は除く）
+  const options: Array<SelectableValue<string>> = (context.options?.objects || [])
+    .filter((obj) => obj.id && (obj.type === 'sphere' || obj.type === '3dmodel') && obj.id !== context.options?.targetObjectId)
+    .map((obj) => ({ value: obj.id, label: obj.name }));
+
+  const selectedOption = options.find(option => option.value === value) || null;
+
+  return (
+    <Select
+      value={selectedOption}
+      options={options}
+      onChange={(selectedOption) => onChange(selectedOption?.value || '')}
+      placeholder="Select chaser object"
+      isClearable
+    />
+  );
+};
@@ -1,9 +1,10 @@
-import React, { useEffect } from 'react';
-import { PanelProps } from '@grafana/data';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { DashboardCursorSync, DataHoverClearEvent, DataHoverEvent, PanelProps } from '@grafana/data';
 import { SimpleOptions } from '../types';
 import { css } from '@emotion/css';
-import { useStyles2, useTheme2 } from '@grafana/ui';
+import { usePanelContext, useStyles2, useTheme2 } from '@grafana/ui';
 import { ThreeScene } from './ThreeScene';
+import { BodyRotationSettings, J2000_EPOCH } from './utils/ReferenceFrame';
 
 interface Props extends PanelProps<SimpleOptions> {}
 
@@ -27,9 +28,65 @@ const getStyles = () => {
   };
 };
 
-export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fieldConfig, id, onOptionsChange }) => {
+export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fieldConfig, id, timeZone, eventBus, onOptionsChange }) => {
   const theme = useTheme2();
   const styles = useStyles2(getStyles);
+  const panelContext = usePanelContext();
+  const [cursorTime, setCursorTime] = useState<number | undefined>(undefined);
+  const cursorSyncEnabled = (options.cursorSync || 'off') === 'on';
+  const hoverDataId = `rendezvous3d-panel-${id}`; // 自パネルが発行したイベントの識別用
+
+  // 天体固定座標系の自転設定（参照が変わるとオブジェクトが再作成されるためメモ化）
+  const bodyRotation = useMemo<BodyRotationSettings>(() => {
+    const epoch = Date.parse(options.rotationEpoch || '');
+    return {
+      source: options.bodyRotationSource || 'pole',
+      poleRa: options.poleRa ?? 0,
+      poleDec: options.poleDec ?? 90,
+      period: options.rotationPeriod ?? 24,
+      epoch: isNaN(epoch) ? J2000_EPOCH : epoch,
+      w0: options.rotationW0 ?? 0
+    };
+  }, [options.bodyRotationSource, options.poleRa, options.poleDec, options.rotationPeriod, options.rotationEpoch, options.rotationW0]);
+
+  // Subscribe to the dashboard shared crosshair
+  useEffect(() => {
+    if (!cursorSyncEnabled) {
+      setCursorTime(undefined);
+      return;
+    }
+
+    const hoverSubscription = eventBus.getStream(DataHoverEvent).subscribe((event) => {
+      // 自パネルが発行したイベントは無視
+      if (event.payload.dataId === hoverDataId) {
+        return;
+      }
+      const time = event.payload.point?.time;
+      if (typeof time === 'number' && isFinite(time)) {
+        setCursorTime(time);
+      }
+    });
+    const clearSubscription = eventBus.getStream(DataHoverClearEvent).subscribe(() => {
+      setCursorTime(undefined);
+    });
+
+    return () => {
+      hoverSubscription.unsubscribe();
+      clearSubscription.unsubscribe();
+    };
+  }, [eventBus, cursorSyncEnabled, hoverDataId]);
+
+  // Publish the 3D scene time to the shared crosshair
+  const publishSceneTime = useCallback((time: number | undefined) => {
+    if (!cursorSyncEnabled || panelContext.sync?.() === DashboardCursorSync.Off) {
+      return;
+    }
+    if (time === undefined) {
+      eventBus.publish(new DataHoverClearEvent());
+    } else {
+      eventBus.publish(new DataHoverEvent({ point: { time }, dataId: hoverDataId }));
+    }
+  }, [eventBus, cursorSyncEnabled, panelContext, hoverDataId]);
 
   // データ変更を監視
   useEffect(() => {
@@ -93,7 +150,7 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
             <li>Connect a data source to visualize data</li>
           </ul>
           <p style={{ fontSize: '12px', marginTop: '10px' }}>
-            Available object types: Sphere, 3D Model, Polyline, Annotation
+            Available object types: Sphere, 3D Model, Polyline, Annotation, Vector, Ellipsoid, Sensor FOV, Safety Zone, Eclipse Cone
           </p>
         </div>
       </div>
@@ -141,6 +198,20 @@ export const SimplePanel: React.FC<Props> = ({ options, data, width, height, fie
         enableCameraControls={(options.camera?.enableControls || 'on') === 'on'}
         cameraSettings={options.camera}
         viewAngleScaling={options.viewAngleScaling}
+        showTimeCursor={(options.timeCursor || 'off') === 'on'}
+        timeZone={timeZone}
+        externalSceneTime={cursorTime}
+        onSceneTimeChange={publishSceneTime}
+        referenceFrame={options.referenceFrame || 'inertial'}
+        frameCenterId={options.frameCenterId}
+        bodyRotation={bodyRotation}
+        floatingOrigin={options.camera?.floatingOrigin || 'off'}
+        logarithmicDepth={(options.camera?.logarithmicDepth || 'off') === 'on'}
+        sunLight={options.sunLight}
+        shadowMode={options.shadowMode || 'off'}
+        shadowCasterId={options.shadowCasterId}
+        theme={theme}
+        showColorLegend={(options.colorLegend || 'on') === 'on'}
       />
     </div>
   );
@@ -0,0 +1,98 @@
+import React from 'react';
+import { StandardEditorProps } from '@grafana/data';
+import { ColorPicker, InlineField, RadioButtonGroup, Select, VerticalGroup } from '@grafana/ui';
+import { DataField, SimpleOptions, SunDirectionSource, SunLightSettings } from '../types';
+import { DataFieldEditor } from './DataFieldEditor';
+import { getTimeFieldOptions } from './utils/CommonHelpers';
+
+interface SunLightEditorProps extends StandardEditorProps<SunLightSettings, any, SimpleOptions> {}
+
+const defaultSunLightSettings: SunLightSettings = {
+  source: 'fixed',
+  sunX: { sourceType: 'const', value: '1' },
+  sunY: { sourceType: 'const', value: '0' },
+  sunZ: { sourceType: 'const', value: '0' },
+  showIndicator: 'off',
+  indicatorColor: '#ffcc00'
+};
+
+export const SunLightEditor: React.FC<SunLightEditorProps> = ({ value, onChange, context }) => {
+  const settings = { ...defaultSunLightSettings, ...value };
+
+  // contextからPanelDataを取得（DataFieldEditorで使用）
+  const panelData = context?.data ? { series: context.data } as any : undefined;
+
+  const updateSettings = (updates: Partial<SunLightSettings>) => {
+    onChange({ ...settings, ...updates });
+  };
+
+  const labelPrefix = settings.source === 'position' ? 'Sun Position' : 'Sun Vector';
+
+  return (
+    <VerticalGroup spacing="sm">
+      <InlineField label="Source" labelWidth={16} tooltip="Fixed keeps the default light. Sun Vector points from the scene toward the sun. Sun Position lights the target object from the given sun position">
+        <RadioButtonGroup
+          options={[
+            { label: 'Fixed', value: 'fixed' as SunDirectionSource },
+            { label: 'Sun Vector', value: 'vector' as SunDirectionSource },
+            { label: 'Sun Position', value: 'position' as SunDirectionSource }
+          ]}
+          value={settings.source}
+          onChange={(source) => updateSettings({ source })}
+        />
+      </InlineField>
+
+      {settings.source !== 'fixed' && (
+        <>
+          <DataFieldEditor
+            label={`${labelPrefix} X`}
+            value={settings.sunX}
+            onChange={(sunX: DataField) => updateSettings({ sunX })}
+            data={panelData}
+          />
+          <DataFieldEditor
+            label={`${labelPrefix} Y`}
+            value={settings.sunY}
+            onChange={(sunY: DataField) => updateSettings({ sunY })}
+            data={panelData}
+          />
+          <DataFieldEditor
+            label={`${labelPrefix} Z`}
+            value={settings.sunZ}
+            onChange={(sunZ: DataField) => updateSettings({ sunZ })}
+            data={panelData}
+          />
+          <InlineField label="Time Field" labelWidth={16} tooltip="Time field used to look up the sun direction at the scene time">
+            <Select
+              width={25}
+              value={settings.timeField || null}
+              options={getTimeFieldOptions(panelData)}
+              onChange={(option) => updateSettings({ timeField: option?.value })}
+              placeholder="Per series"
+              isClearable
+              allowCustomValue
+            />
+          </InlineField>
+          <InlineField label="Indicator" labelWidth={16} tooltip="Draw an arrow toward the sun at the camera target">
+            <RadioButtonGroup
+              options={[
+                { label: 'On', value: 'on' as const },
+                { label: 'Off', value: 'off' as const }
+              ]}
+              value={settings.showIndicator}
+              onChange={(showIndicator) => updateSettings({ showIndicator })}
+            />
+          </InlineField>
+          {settings.showIndicator === 'on' && (
+            <InlineField label="Indicator Color" labelWidth={16}>
+              <ColorPicker
+                color={settings.indicatorColor || '#ffcc00'}
+                onChange={(indicatorColor) => updateSettings({ indicatorColor })}
+              />
+            </InlineField>
+          )}
+        </>
+      )}
+    </VerticalGroup>
+  );
+};
@@ -1,11 +1,35 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
-import { Shape, CameraSettings, ViewAngleScalingSettings } from '../types';
-import { PanelData } from '@grafana/data';
+import { Shape, CameraSettings, SunLightSettings, ViewAngleScalingSettings } from '../types';
+import { GrafanaTheme2, PanelData, dateTimeFormat } from '@grafana/data';
+import { TimeZone } from '@grafana/schema';
 import { DataFieldProcessor, BoundsCalculator, CameraController } from './utils/ThreeSceneHelpers';
 import { ThreeSceneObjectManager } from './utils/ThreeSceneObjectManager';
+import { ModelLoadState } from './utils/ModelCache';
+import { ColorLegend } from './utils/FieldColorScale';
 import { EnvironmentMapGenerator } from './utils/EnvironmentMapGenerator';
+import { PlaybackController, PlaybackSpeed } from './utils/PlaybackController';
+import { BodyRotationSettings, ReferenceFrameMode } from './utils/ReferenceFrame';
+
+const PLAYBACK_SPEEDS: PlaybackSpeed[] = [1, 10, 100, 1000];
+// 固定光源の位置（太陽方向を指定しない場合）
+const DEFAULT_LIGHT_POSITION = new THREE.Vector3(100, 100, 50);
+// 浮動原点：注視点（またはカメラ）が描画原点から視点距離のこの倍率以上離れたら原点を移動
+const REBASE_DISTANCE_RATIO = 100;
+
+// レンダラーを作成（対数深度バッファ：near/farの比が大きい場合のZファイティングを防ぐ）
+const createRenderer = (width: number, height: number, logarithmicDepth: boolean): THREE.WebGLRenderer => {
+  const renderer = new THREE.WebGLRenderer({ antialias: true, logarithmicDepthBuffer: logarithmicDepth });
+  renderer.setSize(width, height);
+  renderer.shadowMap.enabled = true;
+  renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+
+  // トーンマッピングを調整
+  renderer.toneMapping = THREE.NoToneMapping;
+  renderer.toneMappingExposure = 1.0;
+  return renderer;
+};
 
 interface ThreeSceneProps {
   width: number;
@@ -21,8 +45,33 @@ interface ThreeSceneProps {
   enableCameraControls?: boolean;
   cameraSettings?: CameraSettings;
   viewAngleScaling?: ViewAngleScalingSettings;
+  showTimeCursor?: boolean;
+  timeZone?: TimeZone;
+  externalSceneTime?: number; // ダッシュボードのクロスヘア位置（ホバー中のみ）
+  onSceneTimeChange?: (time: number | undefined) => void;
+  referenceFrame?: ReferenceFrameMode;
+  frameCenterId?: string; // LVLH・天体固定座標系の基準オブジェクトID
+  bodyRotation?: BodyRotationSettings; // 天体固定座標系の自転設定
+  floatingOrigin?: 'off' | 'target' | 'camera'; // 描画原点を移動する基準
+  logarithmicDepth?: boolean; // 対数深度バッファ（切り替え時はレンダラーを作り直す）
+  sunLight?: SunLightSettings; // 並行光源の方向（太陽方向）
+  shadowMode?: 'off' | 'fitted';
+  shadowCasterId?: string; // ターゲットに影を落とすオブジェクトID
+  theme?: GrafanaTheme2; // フィールドの値による配色に使用
+  showColorLegend?: boolean;
 }
 
+const overlayButtonStyle: React.CSSProperties = {
+  background: 'transparent',
+  color: 'white',
+  border: '1px solid #666',
+  borderRadius: '2px',
+  padding: '2px 6px',
+  cursor: 'pointer',
+  fontFamily: 'monospace',
+  fontSize: '12px',
+};
+
 export const ThreeScene: React.FC<ThreeSceneProps> = ({
   width,
   height,
@@ -37,6 +86,20 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
   enableCameraControls = true,
   cameraSettings,
   viewAngleScaling,
+  showTimeCursor = false,
+  timeZone,
+  externalSceneTime,
+  onSceneTimeChange,
+  referenceFrame = 'inertial',
+  frameCenterId,
+  bodyRotation,
+  floatingOrigin = 'off',
+  logarithmicDepth = false,
+  sunLight,
+  shadowMode = 'off',
+  shadowCasterId,
+  theme,
+  showColorLegend = true,
 }) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene>();
@@ -49,21 +112,116 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
   const distanceDisplayRef = useRef<HTMLDivElement>(null);
   const directionalLightRef = useRef<THREE.DirectionalLight>();
   const ambientLightRef = useRef<THREE.AmbientLight>();
+  const sunIndicatorRef = useRef<THREE.ArrowHelper>(); // 太陽方向の矢印
   const [currentDistance, setCurrentDistance] = useState<number>(0);
   const [currentPosition, setCurrentPosition] = useState<THREE.Vector3>(new THREE.Vector3());
+  const [sceneTime, setSceneTime] = useState<number | undefined>(undefined); // undefinedの場合は最新サンプル
+  const sceneTimeRef = useRef<number | undefined>(undefined); // 再生中は毎フレーム更新される
+  const playbackAppliedRef = useRef<{ time: number; objects: Shape[] } | null>(null); // 再生ループで反映済みのシーン時刻（同じ時刻の再反映を避ける）
+  const lastTimeDisplayUpdateRef = useRef<number>(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState<PlaybackSpeed>(1);
+  const [loopPlayback, setLoopPlayback] = useState(true);
+  const [sceneAlerts, setSceneAlerts] = useState<string[]>([]); // 安全ゾーンの違反・食の判定（オーバーレイ表示用）
+  const sceneAlertsKeyRef = useRef<string>('');
+  const [modelLoadStates, setModelLoadStates] = useState<ModelLoadState[]>([]); // 3Dモデルの読み込み中・失敗の表示用
+  const modelLoadStatesKeyRef = useRef<string>('');
+  const [colorLegends, setColorLegends] = useState<ColorLegend[]>([]); // フィールドの値で色を決めるオブジェクトの凡例
+  // 描画原点（基準座標系での位置）。シーン内の座標はすべてこの点からの相対座標
+  // カメラ位置の設定・表示は原点を加えた絶対座標で扱う
+  const renderOriginRef = useRef<THREE.Vector3>(new THREE.Vector3());
 
   // Helper classes
   const [dataProcessor] = useState(() => new DataFieldProcessor(data));
   const [boundsCalculator] = useState(() => new BoundsCalculator(dataProcessor));
   const [objectManager, setObjectManager] = useState<ThreeSceneObjectManager | null>(null);
+  const objectManagerRef = useRef<ThreeSceneObjectManager | null>(null); // アンマウント時の破棄用（マウント時のstateはnullのため）
   const [cameraController, setCameraController] = useState<CameraController | null>(null);
   const [environmentMapGenerator, setEnvironmentMapGenerator] = useState<EnvironmentMapGenerator | null>(null);
+  const [playbackController] = useState(() => new PlaybackController());
 
   // Update data processor when data changes
   useEffect(() => {
     dataProcessor.setData(data);
   }, [data, dataProcessor]);
 
+  // タイムカーソルのスライダー範囲（クエリの時間範囲）
+  const timeRange = useMemo(() => new DataFieldProcessor(data).getTimeRange(), [data]);
+
+  // シーン時刻を変更（publish: ダッシュボードのクロスヘアにも通知する場合true）
+  const changeSceneTime = useCallback((time: number | undefined, publish = true) => {
+    sceneTimeRef.current = time;
+    setSceneTime(time);
+    if (publish && onSceneTimeChange) {
+      onSceneTimeChange(time);
+    }
+  }, [onSceneTimeChange]);
+
+  // タイムカーソルが無効になった場合は再生を止めて最新サンプル表示に戻す
+  useEffect(() => {
+    if (!showTimeCursor) {
+      playbackController.pause();
+      setIsPlaying(false);
+      changeSceneTime(undefined, false);
+    }
+  }, [showTimeCursor, playbackController, changeSceneTime]);
+
+  // ダッシュボードのクロスヘアに追従
+  // ホバー解除後、タイムカーソル表示中は最後の時刻を保持し、非表示の場合は最新サンプルに戻す
+  useEffect(() => {
+    if (externalSceneTime !== undefined) {
+      playbackController.pause();
+      setIsPlaying(false);
+      changeSceneTime(externalSceneTime, false);
+    } else if (!showTimeCursor) {
+      changeSceneTime(undefined, false);
+    }
+  }, [externalSceneTime, showTimeCursor, playbackController, changeSceneTime]);
+
+  // Apply scene time to time-dependent objects
+  // 再生中のスライダー表示の更新では、再生ループで反映済みの時刻を再度反映しない
+  useEffect(() => {
+    const applied = playbackAppliedRef.current;
+    playbackAppliedRef.current = null;
+    if (applied && applied.time === sceneTimeRef.current && applied.objects === objects) {
+      return;
+    }
+    dataProcessor.setSceneTime(sceneTimeRef.current);
+    if (isInitialized && objectManager) {
+      objectManager.updateSceneTime(objects);
+    }
+  }, [sceneTime, isInitialized, objectManager, dataProcessor, objects]);
+
+  // Sync playback settings with the controller
+  useEffect(() => {
+    playbackController.setSpeed(playbackSpeed);
+    playbackController.setLoop(loopPlayback);
+  }, [playbackController, playbackSpeed, loopPlayback]);
+
+  const togglePlayback = () => {
+    if (playbackController.isPlaying()) {
+      playbackController.pause();
+      setIsPlaying(false);
+      return;
+    }
+    // 最新サンプル表示中に再生した場合は範囲の先頭から開始
+    if (sceneTimeRef.current === undefined && timeRange) {
+      changeSceneTime(timeRange.from);
+    }
+    playbackController.play();
+    setIsPlaying(true);
+  };
+
+  const stepPlayback = (direction: 1 | -1) => {
+    if (!timeRange) {
+      return;
+    }
+    playbackController.pause();
+    setIsPlaying(false);
+    const current = sceneTimeRef.current ?? timeRange.to;
+    changeSceneTime(playbackController.step(current, dataProcessor.getSampleTimes(), direction, timeRange));
+  };
+
   // Listen for camera position requests
   useEffect(() => {
     const handleCameraPositionRequest = (event: MessageEvent) => {
@@ -71,7 +229,7 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
         const camera = cameraRef.current;
         
         // Calculate distance to target
-        let targetPosition = new THREE.Vector3(0, 0, 0);
+        let targetPosition = renderOriginRef.current.clone().negate();
         if (targetObjectId !== 'origin') {
           const targetObject = objectsRef.current.get(targetObjectId);
           if (targetObject) {
@@ -80,12 +238,13 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
         }
         
         const distance = camera.position.distanceTo(targetPosition);
+        const absolutePosition = camera.position.clone().add(renderOriginRef.current);
         
         const responseEvent = {
           type: 'camera-current-position-response',
-          posX: camera.position.x,
-          posY: camera.position.y,
-          posZ: camera.position.z,
+          posX: absolutePosition.x,
+          posY: absolutePosition.y,
+          posZ: absolutePosition.z,
           distance: distance,
           timestamp: Date.now()
         };
@@ -125,15 +284,7 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
       cameraRef.current = camera;
 
       // Renderer setup
-      const renderer = new THREE.WebGLRenderer({ antialias: true });
-      renderer.setSize(width, height);
-      renderer.shadowMap.enabled = true;
-      renderer.shadowMap.type = THREE.PCFSoftShadowMap;
-      
-      // トーンマッピングを調整
-      renderer.toneMapping = THREE.NoToneMapping;
-      renderer.toneMappingExposure = 1.0;
-      
+      const renderer = createRenderer(width, height, logarithmicDepth);
       rendererRef.current = renderer;
 
       // Controls setup
@@ -147,11 +298,12 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
 
       // 並行光源の設定
       const directionalLight = new THREE.DirectionalLight(0xffffff, directionalLightIntensity);
-      directionalLight.position.set(100, 100, 50);
+      directionalLight.position.copy(DEFAULT_LIGHT_POSITION);
       directionalLight.castShadow = true;
       directionalLight.shadow.mapSize.width = 2048;
       directionalLight.shadow.mapSize.height = 2048;
       scene.add(directionalLight);
+      scene.add(directionalLight.target); // 影のカメラを合わせる際にターゲットを移動するため
       directionalLightRef.current = directionalLight;
 
       // アンビエント光の設定
@@ -176,6 +328,7 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
       // Initialize helper classes
       const objManager = new ThreeSceneObjectManager(scene, dataProcessor, objectsRef, viewAngleScaling);
       objManager.setCamera(camera); // カメラ参照を設定
+      objectManagerRef.current = objManager;
       setObjectManager(objManager);
 
       const camController = new CameraController(camera, controls, boundsCalculator, objectsRef, dataProcessor);
@@ -195,7 +348,8 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
     width,
     height,
     isInitialized,
-    environmentMapIntensity
+    environmentMapIntensity,
+    logarithmicDepth
   ]);
 
   // Animation loop
@@ -205,15 +359,123 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
     }
 
     controlsRef.current.update();
+
+    // 浮動原点：注視点（またはカメラ）が描画原点から離れたら原点を移動して全オブジェクトを再配置
+    // 移動前後でカメラとオブジェクトの相対位置は変わらないため、見た目は変化しない
+    if (objectManager) {
+      const camera = cameraRef.current;
+      const controls = controlsRef.current;
+      const viewDistance = Math.max(camera.position.distanceTo(controls.target), camera.near);
+      const shift = floatingOrigin === 'off'
+        ? renderOriginRef.current.clone().negate()
+        : (floatingOrigin === 'camera' ? camera.position : controls.target).clone();
+      const needsRebase = floatingOrigin === 'off'
+        ? shift.lengthSq() > 0
+        : shift.length() > viewDistance * REBASE_DISTANCE_RATIO;
+
+      if (needsRebase) {
+        renderOriginRef.current.add(shift);
+        objectManager.setRenderOrigin(renderOriginRef.current);
+        objectManager.updateObjects(objects);
+        objectManager.updateTrails(objects);
+        camera.position.sub(shift);
+        controls.target.sub(shift);
+        sceneRef.current.children.forEach((child) => {
+          if (child instanceof THREE.AxesHelper) {
+            child.position.copy(renderOriginRef.current).negate();
+          }
+        });
+      }
+    }
+
+    // 再生中はシーン時刻を進めて位置・姿勢を更新
+    if (playbackController.isPlaying() && timeRange && objectManager) {
+      const now = performance.now();
+      const nextTime = playbackController.advance(sceneTimeRef.current ?? timeRange.from, timeRange, now);
+      sceneTimeRef.current = nextTime;
+      dataProcessor.setSceneTime(nextTime);
+      objectManager.updateSceneTime(objects);
+      playbackAppliedRef.current = { time: nextTime, objects };
+
+      // スライダー表示の更新は間引く（毎フレームの再レンダリングを避ける）
+      if (now - lastTimeDisplayUpdateRef.current > 100 || !playbackController.isPlaying()) {
+        lastTimeDisplayUpdateRef.current = now;
+        setSceneTime(nextTime);
+        onSceneTimeChange?.(nextTime);
+      }
+      if (!playbackController.isPlaying()) {
+        setIsPlaying(false);
+      }
+    }
     
+    // 並行光源を太陽方向に向け、注視点に太陽方向の矢印を表示
+    if (objectManager && directionalLightRef.current) {
+      const sunDirection = objectManager.getSunDirection(sunLight, targetObjectId);
+      const light = directionalLightRef.current;
+      const lightDirection = sunDirection || DEFAULT_LIGHT_POSITION.clone().normalize();
+      light.position.copy(light.target.position).addScaledVector(lightDirection, DEFAULT_LIGHT_POSITION.length());
+
+      // チェイサーの影をターゲットに落とす（影のカメラを両者に合わせる）
+      objectManager.updateShadows(
+        light,
+        shadowMode === 'fitted' && targetObjectId !== 'origin' ? targetObjectId : undefined,
+        shadowMode === 'fitted' ? shadowCasterId : undefined
+      );
+
+      const showIndicator = sunDirection !== null && sunLight?.showIndicator === 'on';
+      if (showIndicator && !sunIndicatorRef.current) {
+        sunIndicatorRef.current = new THREE.ArrowHelper(new THREE.Vector3(1, 0, 0));
+        sceneRef.current.add(sunIndicatorRef.current);
+      }
+      if (sunIndicatorRef.current) {
+        const indicator = sunIndicatorRef.current;
+        indicator.visible = showIndicator;
+        if (showIndicator && sunDirection) {
+          // 視点距離に比例した長さにして常に画面内に収める
+          const length = cameraRef.current.position.distanceTo(controlsRef.current.target) * 0.3;
+          indicator.position.copy(controlsRef.current.target);
+          indicator.setDirection(sunDirection);
+          indicator.setLength(length, length * 0.2, length * 0.1);
+          indicator.setColor(sunLight?.indicatorColor || '#ffcc00');
+        }
+      }
+    }
+
     // 視野角ベースのスケーリングを更新
     if (objectManager) {
       objectManager.updateViewAngleScaling();
     }
 
+    // センサ視野等を親オブジェクトの位置・姿勢に追従し、安全ゾーンの違反と食（本影・半影）を判定
+    if (objectManager) {
+      objectManager.updateAttachments();
+      const light = directionalLightRef.current;
+      const lightDirection = light
+        ? light.position.clone().sub(light.target.position).normalize()
+        : DEFAULT_LIGHT_POSITION.clone().normalize();
+      const alerts = [...objectManager.updateSafetyZones(), ...objectManager.updateEclipseCones(lightDirection, sunLight)];
+      const alertsKey = alerts.join('\n');
+      if (alertsKey !== sceneAlertsKeyRef.current) {
+        sceneAlertsKeyRef.current = alertsKey;
+        setSceneAlerts(alerts);
+      }
+    }
+
+    // 3Dモデルの読み込み状態（進捗は1%単位で更新）
+    if (objectManager) {
+      const loadStates = objectManager.getModelLoadStates(objects);
+      const loadStatesKey = loadStates
+        .map(state => `${state.objectId}:${state.status}:${state.progress !== undefined ? Math.floor(state.progress * 100) : ''}:${state.failure?.message || ''}`)
+        .join('\n');
+      if (loadStatesKey !== modelLoadStatesKeyRef.current) {
+        modelLoadStatesKeyRef.current = loadStatesKey;
+        setModelLoadStates(loadStates.map(state => ({ ...state })));
+      }
+    }
+
     // 距離表示が有効な場合、カメラとターゲットオブジェクト間の距離を計算
     if (cameraSettings?.showPositionAndDistance === 'on') {
-      let targetPosition = new THREE.Vector3(0, 0, 0); // Default to origin
+      let targetPosition = renderOriginRef.current.clone().negate(); // Default to origin
       
       if (targetObjectId !== 'origin') {
         const targetObject = objectsRef.current.get(targetObjectId);
@@ -224,17 +486,20 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
       
       const distance = cameraRef.current.position.distanceTo(targetPosition);
       setCurrentDistance(distance);
-      setCurrentPosition(cameraRef.current.position.clone());
+      setCurrentPosition(cameraRef.current.position.clone().add(renderOriginRef.current));
     }
     
     rendererRef.current.render(sceneRef.current, cameraRef.current);
     animationIdRef.current = requestAnimationFrame(animate);
-  }, [objectManager, cameraSettings?.showPositionAndDistance, targetObjectId]);
+  }, [objectManager, cameraSettings?.showPositionAndDistance, targetObjectId, playbackController, timeRange, dataProcessor, objects, onSceneTimeChange, floatingOrigin, sunLight, shadowMode, shadowCasterId]);
 
   // Update objects based on shape configuration
   const updateObjects = useCallback(async () => {
     if (!sceneRef.current || !objectManager) return;
 
+    // 基準座標系は作成・更新の前に設定
+    objectManager.setReferenceFrame(referenceFrame, objects.find(obj => obj.id === frameCenterId), bodyRotation);
+
     // Get current object IDs
     const currentObjectIds = new Set(objectsRef.current.keys());
     const newObjectIds = new Set(objects.filter(obj => obj.visible).map(obj => obj.id));
@@ -273,11 +538,26 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
             case 'annotation':
               newObject = objectManager.createAnnotation(shape);
               break;
+            case 'vector':
+              newObject = objectManager.createVector(shape);
+              break;
+            case 'ellipsoid':
+              newObject = objectManager.createEllipsoid(shape);
+              break;
+            case 'sensorFov':
+              newObject = objectManager.createSensorFov(shape);
+              break;
+            case 'safetyZone':
+              newObject = objectManager.createSafetyZone(shape);
+              break;
+            case 'eclipseCone':
+              newObject = objectManager.createEclipseCone(shape);
+              break;
             case '3dmodel':
               try {
                 newObject = await objectManager.create3DModel(shape);
-              } catch (error) {
-                console.error(`Failed to load 3D model for ${shape.name}:`, error);
+              } catch {
+                // 失敗はcreate3DModelでログ出力し、パネルのエラーカードに表示済み
                 continue;
               }
               break;
@@ -294,7 +574,24 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
         console.error(`Error creating/updating object ${shape.name}:`, error);
       }
     }
-  }, [objects, objectManager]);
+
+    objectManager.updateTrails(objects);
+    setColorLegends(objectManager.getColorLegends(objects));
+  }, [objects, objectManager, referenceFrame, frameCenterId, bodyRotation]);
+
+  // フィールドの値による配色に使用するテーマ（オブジェクトの更新より前に設定）
+  useEffect(() => {
+    if (objectManager && theme) {
+      objectManager.setTheme(theme);
+    }
+  }, [objectManager, theme]);
+
+  // ポリラインの線幅をピクセル単位で描画するため、パネルの描画サイズを設定
+  useEffect(() => {
+    if (objectManager) {
+      objectManager.setLineResolution(width, height);
+    }
+  }, [objectManager, width, height]);
 
   // Update environment map lighting and directional light
   const updateLighting = useCallback(() => {
@@ -342,11 +639,12 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
     initializeScene();
     
     // Store current refs for cleanup
-    const currentRenderer = rendererRef.current;
     const currentMount = mountRef.current;
     const currentAnimation = animationIdRef.current;
     
     return () => {
+      // 対数深度バッファの切り替えでレンダラーが作り直されている場合があるため、破棄時の参照を使用
+      const currentRenderer = rendererRef.current;
       if (currentAnimation) {
         cancelAnimationFrame(currentAnimation);
       }
@@ -361,8 +659,9 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
         currentRenderer.dispose();
       }
       // ObjectManagerのクリーンアップ
-      if (objectManager) {
-        objectManager.dispose();
+      if (objectManagerRef.current) {
+        objectManagerRef.current.dispose();
+        objectManagerRef.current = null;
       }
       // EnvironmentMapGeneratorのクリーンアップ
       if (environmentMapGenerator) {
@@ -383,6 +682,28 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
     };
   }, [isInitialized, animate]);
 
+  // 対数深度バッファの切り替え（WebGLRendererの作成時にしか指定できないため、レンダラーのみ作り直す）
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!isInitialized || !renderer || !mountRef.current || !sceneRef.current || !controlsRef.current) {
+      return;
+    }
+    if (renderer.capabilities.logarithmicDepthBuffer === logarithmicDepth) {
+      return;
+    }
+
+    const newRenderer = createRenderer(width, height, logarithmicDepth);
+    controlsRef.current.connect(newRenderer.domElement);
+    mountRef.current.replaceChild(newRenderer.domElement, renderer.domElement);
+    renderer.dispose();
+    rendererRef.current = newRenderer;
+
+    // 環境マップはレンダラーごとに生成（照明の更新時に新しいジェネレーターで再生成される）
+    environmentMapGenerator?.dispose();
+    sceneRef.current.environment = null;
+    setEnvironmentMapGenerator(new EnvironmentMapGenerator(newRenderer, 256));
+  }, [isInitialized, logarithmicDepth, width, height, environmentMapGenerator]);
+
   // Update renderer size
   useEffect(() => {
     if (rendererRef.current && cameraRef.current) {
@@ -427,12 +748,14 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
     
     // Add axes if enabled
     if (showAxis) {
+      // 座標軸は基準座標系の原点に表示（描画原点からの相対位置）
       const axesHelper = new THREE.AxesHelper(10);
+      axesHelper.position.copy(renderOriginRef.current).negate();
       sceneRef.current.add(axesHelper);
       
       // Add debug axes
       const debugAxes = new THREE.AxesHelper(20);
-      debugAxes.position.set(0, 0, 0);
+      debugAxes.position.copy(renderOriginRef.current).negate();
       sceneRef.current.add(debugAxes);
     }
   }, [showAxis, isInitialized]);
@@ -453,12 +776,16 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
         id: obj.id,
         type: obj.type,
         visible: obj.visible,
+        timeField: obj.timeField,
+        timeJoin: obj.timeJoin,
         // type別の重要な属性
         ...(obj.type === 'sphere' ? {
           color: obj.color,
           autoRadius: obj.autoRadius,
           radius: obj.radius,
-          autoScaleFactor: obj.autoScaleFactor
+          autoScaleFactor: obj.autoScaleFactor,
+          colorSource: obj.colorSource,
+          colorField: obj.colorField
         } : {}),
         ...(obj.type === 'annotation' ? {
           textSize: obj.textSize,
@@ -468,10 +795,20 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
           strokeSize: obj.strokeSize,
           strokeColor: obj.strokeColor,
           closePath: obj.closePath,
-          smoothCurve: obj.smoothCurve
+          smoothCurve: obj.smoothCurve,
+          lineStyle: obj.lineStyle,
+          colorSource: obj.colorSource,
+          colorField: obj.colorField
         } : {}),
         ...(obj.type === '3dmodel' ? {
           url: obj.url,
+          modelFormat: obj.modelFormat,
+          articulations: obj.articulations,
+          keepOriginalMaterials: obj.keepOriginalMaterials,
+          tintColor: obj.tintColor,
+          opacity: obj.opacity,
+          wireframe: obj.wireframe,
+          flatShading: obj.flatShading,
           autoScale: obj.autoScale,
           scale: obj.scale,
           autoScaleFactor: obj.autoScaleFactor
@@ -517,10 +854,14 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
             targetY = targetObject.position.y;
             targetZ = targetObject.position.z;
           }
+        } else {
+          targetX = -renderOriginRef.current.x;
+          targetY = -renderOriginRef.current.y;
+          targetZ = -renderOriginRef.current.z;
         }
 
         // Set camera position directly using absolute coordinates
-        cameraRef.current.position.set(cameraX, cameraY, cameraZ);
+        cameraRef.current.position.set(cameraX, cameraY, cameraZ).sub(renderOriginRef.current);
         if (controlsRef.current) {
           controlsRef.current.target.set(targetX, targetY, targetZ);
           controlsRef.current.update();
@@ -545,10 +886,10 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
         }
 
         // Set camera position directly
-        cameraRef.current.position.set(posX, posY, posZ);
+        cameraRef.current.position.set(posX, posY, posZ).sub(renderOriginRef.current);
 
         // Determine target position for camera to look at
-        let targetX = 0, targetY = 0, targetZ = 0;
+        let targetX = -renderOriginRef.current.x, targetY = -renderOriginRef.current.y, targetZ = -renderOriginRef.current.z;
         if (targetObjectId !== 'origin') {
           const targetObject = objectsRef.current.get(targetObjectId);
           if (targetObject) {
@@ -559,7 +900,10 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
             // Validate target position values
             if (!isFinite(targetX) || !isFinite(targetY) || !isFinite(targetZ)) {
               console.warn('Invalid target position values:', { targetX, targetY, targetZ });
-              targetX = targetY = targetZ = 0; // Fallback to origin
+              // Fallback to origin
+              targetX = -renderOriginRef.current.x;
+              targetY = -renderOriginRef.current.y;
+              targetZ = -renderOriginRef.current.z;
             }
           }
         }
@@ -591,10 +935,10 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
         const { posX, posY, posZ } = event.data;
         
         // Move camera to new position immediately
-        cameraRef.current.position.set(posX, posY, posZ);
+        cameraRef.current.position.set(posX, posY, posZ).sub(renderOriginRef.current);
         
         // Update camera look-at target based on targetObjectId
-        let targetPosition = new THREE.Vector3(0, 0, 0);
+        let targetPosition = renderOriginRef.current.clone().negate();
         if (targetObjectId !== 'origin') {
           const targetObject = objectsRef.current.get(targetObjectId);
           if (targetObject) {
@@ -647,6 +991,218 @@ export const ThreeScene: React.FC<ThreeSceneProps> = ({
           <div>Distance: {currentDistance.toExponential(2)}</div>
         </div>
       )}
+      {sceneAlerts.length > 0 && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '10px',
+            right: '10px',
+            backgroundColor: 'rgba(200, 0, 0, 0.85)',
+            color: 'white',
+            padding: '6px 10px',
+            borderRadius: '4px',
+            fontFamily: 'monospace',
+            fontSize: '12px',
+            fontWeight: 'bold',
+            zIndex: 1000,
+            userSelect: 'none',
+            pointerEvents: 'none',
+            lineHeight: '1.4',
+          }}
+        >
+          {sceneAlerts.map((alert) => (
+            <div key={alert}>⚠ {alert}</div>
+          ))}
+        </div>
+      )}
+      {showColorLegend && colorLegends.length > 0 && (
+        <div
+          style={{
+            position: 'absolute',
+            right: '10px',
+            bottom: showTimeCursor && timeRange ? '56px' : '10px',
+            maxWidth: 'min(260px, calc(100% - 20px))',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '6px',
+            backgroundColor: 'rgba(0, 0, 0, 0.7)',
+            color: 'white',
+            padding: '6px 10px',
+            borderRadius: '4px',
+            fontFamily: 'monospace',
+            fontSize: '11px',
+            lineHeight: '1.4',
+            zIndex: 1000,
+            userSelect: 'none',
+            pointerEvents: 'none',
+          }}
+        >
+          {colorLegends.map((legend) => (
+            <div key={legend.objectId}>
+              <div style={{ fontWeight: 'bold', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{legend.title}</div>
+              {legend.mode === 'gradient' ? (
+                <>
+                  <div
+                    style={{
+                      height: '8px',
+                      margin: '2px 0',
+                      borderRadius: '2px',
+                      background: `linear-gradient(to right, ${legend.stops.map((stop) => stop.color).join(', ')})`,
+                    }}
+                  />
+                  <div style={{ display: 'flex', justifyContent: 'space-between', gap: '8px' }}>
+                    <span>{legend.stops[0]?.label}</span>
+                    <span>{legend.stops[legend.stops.length - 1]?.label}</span>
+                  </div>
+                </>
+              ) : (
+                legend.stops.map((stop, index) => (
+                  <div key={index} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    <span style={{ width: '10px', height: '10px', borderRadius: '2px', backgroundColor: stop.color, flexShrink: 0 }} />
+                    {stop.label && <span>{stop.label}</span>}
+                  </div>
+                ))
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {modelLoadStates.length > 0 && (
+        <div
+          style={{
+            position: 'absolute',
+            left: '10px',
+            bottom: showTimeCursor && timeRange ? '56px' : '10px',
+            maxWidth: 'min(420px, calc(100% - 20px))',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '6px',
+            fontFamily: 'monospace',
+            fontSize: '12px',
+            lineHeight: '1.4',
+            zIndex: 1000,
+          }}
+        >
+          {modelLoadStates.map((state) =>
+            state.status === 'loading' ? (
+              <div
+                key={state.objectId}
+                style={{
+                  backgroundColor: 'rgba(0, 0, 0, 0.7)',
+                  color: 'white',
+                  padding: '6px 10px',
+                  borderRadius: '4px',
+                  pointerEvents: 'none',
+                }}
+              >
+                <div>
+                  Loading {state.name}
+                  {state.progress !== undefined ? ` ${Math.floor(state.progress * 100)}%` : '…'}
+                </div>
+                {state.progress !== undefined && (
+                  <div style={{ height: '3px', marginTop: '4px', backgroundColor: 'rgba(255, 255, 255, 0.2)' }}>
+                    <div style={{ width: `${state.progress * 100}%`, height: '100%', backgroundColor: '#3d71d9' }} />
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div
+                key={state.objectId}
+                style={{
+                  backgroundColor: 'rgba(60, 0, 0, 0.9)',
+                  border: '1px solid rgba(255, 80, 80, 0.8)',
+                  color: 'white',
+                  padding: '8px 10px',
+                  borderRadius: '4px',
+                  wordBreak: 'break-all',
+                }}
+              >
+                <div style={{ fontWeight: 'bold' }}>⚠ Failed to load model: {state.name}</div>
+                <div>URL: {state.url}</div>
+                <div>HTTP status: {state.failure?.httpStatus ?? 'no response'}</div>
+                {state.failure?.message && <div>Error: {state.failure.message}</div>}
+                {state.failure?.corsSuspected && (
+                  <div style={{ marginTop: '4px', opacity: 0.85 }}>
+                    Hint: the request got no response. The server may be unreachable, or it may block cross-origin requests. Check that it sends an Access-Control-Allow-Origin header for this Grafana origin.
+                  </div>
+                )}
+              </div>
+            )
+          )}
+        </div>
+      )}
+      {showTimeCursor && timeRange && (
+        <div
+          style={{
+            position: 'absolute',
+            left: '10px',
+            right: '10px',
+            bottom: '10px',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            backgroundColor: 'rgba(0, 0, 0, 0.7)',
+            color: 'white',
+            padding: '6px 10px',
+            borderRadius: '4px',
+            fontFamily: 'monospace',
+            fontSize: '12px',
+            zIndex: 1000,
+          }}
+        >
+          <button
+            onClick={() => {
+              playbackController.pause();
+              setIsPlaying(false);
+              changeSceneTime(undefined);
+            }}
+            style={{ ...overlayButtonStyle, background: sceneTime === undefined ? '#3d71d9' : 'transparent' }}
+            title="Show the latest sample"
+          >
+            Live
+          </button>
+          <button onClick={() => stepPlayback(-1)} style={overlayButtonStyle} title="Previous sample">
+            |◀
+          </button>
+          <button onClick={togglePlayback} style={overlayButtonStyle} title={isPlaying ? 'Pause' : 'Play'}>
+            {isPlaying ? '❚❚' : '▶'}
+          </button>
+          <button onClick={() => stepPlayback(1)} style={overlayButtonStyle} title="Next sample">
+            ▶|
+          </button>
+          <select
+            value={playbackSpeed}
+            onChange={(e) => setPlaybackSpeed(Number(e.currentTarget.value) as PlaybackSpeed)}
+            style={{ ...overlayButtonStyle, background: '#222' }}
+            title="Playback speed"
+          >
+            {PLAYBACK_SPEEDS.map((speed) => (
+              <option key={speed} value={speed}>
+                {speed}x
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => setLoopPlayback(!loopPlayback)}
+            style={{ ...overlayButtonStyle, background: loopPlayback ? '#3d71d9' : 'transparent' }}
+            title="Loop over the query range"
+          >
+            Loop
+          </button>
+          <input
+            type="range"
+            min={timeRange.from}
+            max={timeRange.to}
+            step={1}
+            value={sceneTime ?? timeRange.to}
+            onChange={(e) => changeSceneTime(Number(e.currentTarget.value))}
+            style={{ flex: 1 }}
+          />
+          <span style={{ whiteSpace: 'nowrap' }}>
+            {sceneTime === undefined ? 'Latest sample' : dateTimeFormat(sceneTime, { timeZone })}
+          </span>
+        </div>
+      )}
     </div>
   );
 };
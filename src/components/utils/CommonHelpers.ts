@@ -1,4 +1,5 @@
 import { css } from '@emotion/css';
+import { FieldType } from '@grafana/data';
 
 // Common styles for form components
 export const getCommonStyles = () => ({
@@ -79,3 +80,26 @@ export const getFieldOptions = (data?: any) => {
   
   return fieldOptions;
 };
+
+// Helper to get time field options (for per-object time binding)
+export const getTimeFieldOptions = (data?: any) => {
+  if (!data || !data.series) {
+    return [];
+  }
+
+  const fieldOptions: Array<{ label: string; value: string }> = [];
+
+  data.series.forEach((series: any, seriesIndex: number) => {
+    series.fields.forEach((field: any) => {
+      if (field.name && field.type === FieldType.time) {
+        const dataSourceName = series.name || series.refId || `Query-${seriesIndex + 1}`;
+        fieldOptions.push({
+          label: `${dataSourceName} → ${field.name}`,
+          value: `${dataSourceName}.${field.name}`
+        });
+      }
+    });
+  });
+
+  return fieldOptions;
+};
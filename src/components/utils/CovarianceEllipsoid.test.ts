@@ -0,0 +1,54 @@
+import * as THREE from 'three';
+import { CovarianceEllipsoid } from './CovarianceEllipsoid';
+
+describe('CovarianceEllipsoid', () => {
+  // 半軸の方向と長さを取り出す（ローカル軸を楕円体の向きに回転）
+  const getAxes = (quaternion: THREE.Quaternion) => [
+    new THREE.Vector3(1, 0, 0).applyQuaternion(quaternion),
+    new THREE.Vector3(0, 1, 0).applyQuaternion(quaternion),
+    new THREE.Vector3(0, 0, 1).applyQuaternion(quaternion),
+  ];
+
+  it('uses the standard deviations as radii for a diagonal covariance', () => {
+    const { radii } = CovarianceEllipsoid.fromCovariance({ xx: 4, yy: 9, zz: 16, xy: 0, xz: 0, yz: 0 });
+    expect([radii.x, radii.y, radii.z].sort((a, b) => a - b)).toEqual([2, 3, 4]);
+  });
+
+  it('recovers the radii and axes of a rotated covariance', () => {
+    // X-Y平面内で45°回転した、標準偏差3・1・2の楕円体
+    const rotation = new THREE.Matrix4().makeRotationZ(Math.PI / 4);
+    const sigmas = new THREE.Matrix4().makeScale(9, 1, 4);
+    const covariance = rotation.clone().multiply(sigmas).multiply(rotation.clone().transpose());
+    const e = covariance.elements;
+    const { radii, quaternion } = CovarianceEllipsoid.fromCovariance({
+      xx: e[0], yy: e[5], zz: e[10], xy: e[4], xz: e[8], yz: e[9],
+    });
+
+    const axes = getAxes(quaternion);
+    const major = [radii.x, radii.y, radii.z].indexOf(Math.max(radii.x, radii.y, radii.z));
+    expect(Math.max(radii.x, radii.y, radii.z)).toBeCloseTo(3);
+    expect(Math.abs(axes[major].dot(new THREE.Vector3(1, 1, 0).normalize()))).toBeCloseTo(1);
+
+    // 各半軸方向の分散が半軸長の2乗と一致する
+    const matrix3 = new THREE.Matrix3().setFromMatrix4(covariance);
+    [radii.x, radii.y, radii.z].forEach((radius, i) => {
+      const axis = axes[i];
+      expect(axis.clone().applyMatrix3(matrix3).dot(axis)).toBeCloseTo(radius * radius);
+    });
+  });
+
+  it('returns a right-handed orthonormal basis', () => {
+    const { quaternion } = CovarianceEllipsoid.fromCovariance({ xx: 5, yy: 3, zz: 2, xy: 1, xz: 0.5, yz: -0.3 });
+    const [x, y, z] = getAxes(quaternion);
+
+    expect(x.dot(y)).toBeCloseTo(0);
+    expect(y.dot(z)).toBeCloseTo(0);
+    expect(new THREE.Vector3().crossVectors(x, y).dot(z)).toBeCloseTo(1);
+  });
+
+  it('treats slightly negative eigenvalues as zero radii', () => {
+    const { radii } = CovarianceEllipsoid.fromCovariance({ xx: 1, yy: 1, zz: -1e-12, xy: 1, xz: 0, yz: 0 });
+    [radii.x, radii.y, radii.z].forEach(radius => expect(Number.isNaN(radius)).toBe(false));
+    expect(Math.min(radii.x, radii.y, radii.z)).toBeCloseTo(0);
+  });
+});
@@ -0,0 +1,104 @@
+import * as THREE from 'three';
+
+export interface CovarianceTerms {
+  xx: number;
+  yy: number;
+  zz: number;
+  xy: number;
+  xz: number;
+  yz: number;
+}
+
+export interface EllipsoidAxes {
+  radii: THREE.Vector3; // 1σの半軸長
+  quaternion: THREE.Quaternion; // 半軸の向き（ローカルX/Y/Z軸を各半軸に回転）
+}
+
+export class CovarianceEllipsoid {
+  /**
+   * 共分散行列（対称3x3、独立な6成分）から1σ楕円体の半軸と向きを計算
+   * @param terms - 共分散の各成分（位置単位の2乗）
+   * @returns 固有値の平方根を半軸長、固有ベクトルを軸方向とした楕円体
+   */
+  static fromCovariance(terms: CovarianceTerms): EllipsoidAxes {
+    const matrix = [
+      [terms.xx, terms.xy, terms.xz],
+      [terms.xy, terms.yy, terms.yz],
+      [terms.xz, terms.yz, terms.zz]
+    ];
+    const { values, vectors } = this.jacobiEigen(matrix);
+
+    // 数値誤差による負の固有値は0として扱う
+    const radii = new THREE.Vector3(
+      Math.sqrt(Math.max(0, values[0])),
+      Math.sqrt(Math.max(0, values[1])),
+      Math.sqrt(Math.max(0, values[2]))
+    );
+
+    const axisX = new THREE.Vector3(vectors[0][0], vectors[1][0], vectors[2][0]);
+    const axisY = new THREE.Vector3(vectors[0][1], vectors[1][1], vectors[2][1]);
+    // 右手系になるよう3軸目は外積から求める
+    const axisZ = new THREE.Vector3().crossVectors(axisX, axisY);
+
+    const rotation = new THREE.Matrix4().makeBasis(axisX, axisY, axisZ);
+    const quaternion = new THREE.Quaternion().setFromRotationMatrix(rotation);
+
+    return { radii, quaternion };
+  }
+
+  /**
+   * 対称行列の固有値分解（ヤコビ法）
+   * @param matrix - 対称3x3行列
+   * @returns 固有値と、列ベクトルを固有ベクトルとする行列
+   */
+  static jacobiEigen(matrix: number[][]): { values: number[]; vectors: number[][] } {
+    const a = matrix.map(row => [...row]);
+    const v = [
+      [1, 0, 0],
+      [0, 1, 0],
+      [0, 0, 1]
+    ];
+
+    for (let sweep = 0; sweep < 50; sweep++) {
+      const offDiagonal = Math.abs(a[0][1]) + Math.abs(a[0][2]) + Math.abs(a[1][2]);
+      if (offDiagonal < 1e-15 * (Math.abs(a[0][0]) + Math.abs(a[1][1]) + Math.abs(a[2][2]) + 1e-300)) {
+        break;
+      }
+
+      for (let p = 0; p < 2; p++) {
+        for (let q = p + 1; q < 3; q++) {
+          if (a[p][q] === 0) {
+            continue;
+          }
+
+          // 非対角成分a[p][q]を0にする回転角
+          const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+          const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+          const c = 1 / Math.sqrt(t * t + 1);
+          const s = t * c;
+
+          for (let k = 0; k < 3; k++) {
+            const akp = a[k][p];
+            const akq = a[k][q];
+            a[k][p] = c * akp - s * akq;
+            a[k][q] = s * akp + c * akq;
+          }
+          for (let k = 0; k < 3; k++) {
+            const apk = a[p][k];
+            const aqk = a[q][k];
+            a[p][k] = c * apk - s * aqk;
+            a[q][k] = s * apk + c * aqk;
+          }
+          for (let k = 0; k < 3; k++) {
+            const vkp = v[k][p];
+            const vkq = v[k][q];
+            v[k][p] = c * vkp - s * vkq;
+            v[k][q] = s * vkp + c * vkq;
+          }
+        }
+      }
+    }
+
+    return { values: [a[0][0], a[1][1], a[2][2]], vectors: v };
+  }
+}
@@ -0,0 +1,121 @@
+import {
+  Field,
+  FieldColorModeId,
+  FieldType,
+  GrafanaTheme2,
+  ThresholdsMode,
+  getDisplayProcessor,
+  getFieldColorModeForField,
+  getFieldDisplayName,
+} from '@grafana/data';
+
+// 凡例の段階（しきい値の場合は各段階、連続的な配色の場合は最小値から最大値までの色）
+export interface ColorLegendStop {
+  color: string;
+  label?: string;
+}
+
+export interface ColorLegend {
+  objectId: string;
+  title: string; // オブジェクト名とフィールド名
+  mode: 'thresholds' | 'gradient';
+  stops: ColorLegendStop[];
+}
+
+// 連続的な配色の凡例で色を取得する点の数
+const GRADIENT_STEPS = 11;
+
+export class FieldColorScale {
+  /**
+   * フィールドの表示設定（カラーモード・しきい値）から値を色に変換する関数を作成
+   * @param field - パネルのfieldConfigを適用済みのフィールド
+   * @param theme - Grafanaのテーマ（色名の解決に使用）
+   * @returns 値から色（CSSの色文字列）への変換関数
+   */
+  static create(field: Field, theme: GrafanaTheme2): (value: number) => string {
+    const display = getDisplayProcessor({ field: this.withValueRange(field), theme });
+    return (value: number) => display(value).color || '#ffffff';
+  }
+
+  /**
+   * 凡例の表示内容を作成
+   * @param objectId - 色を適用するオブジェクトのID
+   * @param objectName - オブジェクト名
+   * @param field - パネルのfieldConfigを適用済みのフィールド
+   * @param theme - Grafanaのテーマ
+   * @returns しきい値の段階、または最小値から最大値までの色の変化
+   */
+  static createLegend(objectId: string, objectName: string, field: Field, theme: GrafanaTheme2): ColorLegend {
+    const title = `${objectName}: ${getFieldDisplayName(field)}`;
+    const toColor = this.create(field, theme);
+    // ラベルは元のフィールドの単位・書式で表示（時刻フィールドは日時）
+    const format = getDisplayProcessor({ field, theme });
+    const formatValue = (value: number) => {
+      const display = format(value);
+      return `${display.prefix || ''}${display.text}${display.suffix || ''}`;
+    };
+
+    const thresholds = field.config.thresholds;
+    if ((field.config.color?.mode || FieldColorModeId.Thresholds) === FieldColorModeId.Thresholds && thresholds?.steps.length) {
+      const percentage = thresholds.mode === ThresholdsMode.Percentage;
+      return {
+        objectId,
+        title,
+        mode: 'thresholds',
+        stops: thresholds.steps.map(step => ({
+          color: theme.visualization.getColorByName(step.color),
+          label: !isFinite(step.value) ? 'Base' : percentage ? `${step.value}%` : formatValue(step.value),
+        })),
+      };
+    }
+
+    const range = this.getValueRange(field);
+    if (!getFieldColorModeForField(field).isContinuous) {
+      // 固定色・系列ごとの配色は1色のみ
+      return { objectId, title, mode: 'thresholds', stops: [{ color: toColor(range.min) }] };
+    }
+
+    const stops: ColorLegendStop[] = [];
+    for (let i = 0; i < GRADIENT_STEPS; i++) {
+      const value = range.min + (range.max - range.min) * (i / (GRADIENT_STEPS - 1));
+      stops.push({ color: toColor(value), label: i === 0 || i === GRADIENT_STEPS - 1 ? formatValue(value) : undefined });
+    }
+    return { objectId, title, mode: 'gradient', stops };
+  }
+
+  // 時刻フィールドはGrafanaの色の計算で範囲が0〜100として扱われるため、数値フィールドとして値の範囲を設定
+  private static withValueRange(field: Field): Field {
+    if (field.type !== FieldType.time) {
+      return field;
+    }
+    const range = this.getValueRange(field);
+    return {
+      ...field,
+      type: FieldType.number,
+      state: { ...field.state, range: { ...range, delta: range.max - range.min } },
+    };
+  }
+
+  // 表示設定の最小値・最大値（未設定の場合はデータの範囲）
+  private static getValueRange(field: Field): { min: number; max: number } {
+    const stateRange = field.type !== FieldType.time ? field.state?.range : undefined;
+    let min = field.config.min ?? stateRange?.min ?? Infinity;
+    let max = field.config.max ?? stateRange?.max ?? -Infinity;
+
+    if (!isFinite(min) || !isFinite(max)) {
+      let dataMin = Infinity;
+      let dataMax = -Infinity;
+      for (const raw of field.values) {
+        const value = typeof raw === 'number' ? raw : Number(raw?.valueOf?.() ?? raw);
+        if (isFinite(value)) {
+          dataMin = Math.min(dataMin, value);
+          dataMax = Math.max(dataMax, value);
+        }
+      }
+      min = isFinite(min) ? min : dataMin;
+      max = isFinite(max) ? max : dataMax;
+    }
+
+    return isFinite(min) && isFinite(max) ? { min, max } : { min: 0, max: 100 };
+  }
+}
@@ -0,0 +1,228 @@
+import * as THREE from 'three';
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils';
+import { ModelLoader, ResolvedModelFormat } from './ModelLoader';
+
+// 参照が無くなってから解放するまでの猶予（表示切替やパネル再作成での再取得を避ける）
+const RELEASE_DELAY_MS = 60000;
+
+export interface ModelLoadFailure {
+  url: string;
+  format: ResolvedModelFormat;
+  httpStatus?: number; // HTTPステータス（応答が無い場合は未定義）
+  message: string;
+  corsSuspected: boolean; // 応答の無いネットワークエラー（CORSによる遮断の可能性）
+}
+
+// 3Dモデルオブジェクトごとの読み込み状態（パネル内の表示用）
+export interface ModelLoadState {
+  objectId: string;
+  name: string;
+  url: string;
+  status: 'loading' | 'error';
+  progress?: number; // 0〜1（サイズ不明の場合は未定義）
+  failure?: ModelLoadFailure;
+}
+
+interface ModelCacheEntry {
+  template?: THREE.Group;
+  refCount: number;
+  waiters: Array<{
+    onLoad: (model: THREE.Group) => void;
+    onProgress?: (event: ProgressEvent) => void;
+    onError?: (error: unknown) => void;
+  }>;
+  releaseTimer?: ReturnType<typeof setTimeout>;
+}
+
+export class ModelCache {
+  // モジュール単位で保持するため、同じダッシュボードの複数パネルで共有される
+  private static loader = new ModelLoader();
+  private static entries: Map<string, ModelCacheEntry> = new Map();
+  private static instanceKeys: WeakMap<THREE.Object3D, string> = new WeakMap();
+  private static failures: Map<string, ModelLoadFailure> = new Map();
+  private static failureListeners: Set<() => void> = new Set();
+
+  /**
+   * モデルを取得（同じURL・形式のモデルは1回だけ読み込み、ジオメトリとテクスチャを共有）
+   * @param url - モデルのURL
+   * @param format - モデル形式
+   * @param onLoad - 取得完了時のコールバック（インスタンスごとに複製したシーン。マテリアルはキャッシュと共有のため、変更する場合は複製して置き換える）
+   * @param onProgress - 読み込み進捗のコールバック（読み込み中の場合のみ）
+   * @param onError - 読み込み失敗時のコールバック
+   */
+  static acquire(
+    url: string,
+    format: ResolvedModelFormat,
+    onLoad: (model: THREE.Group) => void,
+    onProgress?: (event: ProgressEvent) => void,
+    onError?: (error: unknown) => void
+  ): void {
+    const key = `${format}:${url}`;
+    const entry = this.entries.get(key);
+
+    if (entry?.template) {
+      this.cancelRelease(entry);
+      entry.refCount++;
+      onLoad(this.createInstance(entry.template, key));
+      return;
+    }
+
+    if (entry) {
+      entry.waiters.push({ onLoad, onProgress, onError });
+      return;
+    }
+
+    const newEntry: ModelCacheEntry = { refCount: 0, waiters: [{ onLoad, onProgress, onError }] };
+    this.entries.set(key, newEntry);
+
+    this.loader.load(
+      url,
+      format,
+      (model) => {
+        newEntry.template = model;
+        if (this.failures.delete(key)) {
+          this.notifyFailureListeners();
+        }
+        const waiters = newEntry.waiters;
+        newEntry.waiters = [];
+        waiters.forEach(waiter => {
+          newEntry.refCount++;
+          waiter.onLoad(this.createInstance(model, key));
+        });
+        // 待機中の取得が無い場合も猶予後に解放
+        if (newEntry.refCount === 0) {
+          this.scheduleRelease(key, newEntry);
+        }
+      },
+      (event) => {
+        newEntry.waiters.forEach(waiter => waiter.onProgress?.(event));
+      },
+      (error) => {
+        // 失敗した読み込みはキャッシュせず、次回の取得で再試行する
+        this.entries.delete(key);
+        this.failures.set(key, { url, format, ...this.describeError(error) });
+        this.notifyFailureListeners();
+        newEntry.waiters.forEach(waiter => waiter.onError?.(error));
+        newEntry.waiters = [];
+      }
+    );
+  }
+
+  /**
+   * acquireで取得したモデルの参照を解放（インスタンスで置き換えたマテリアルのみ破棄）
+   * @param model - 解放するモデル
+   * @returns キャッシュのモデルだった場合はtrue（ジオメトリ・テクスチャは呼び出し側で破棄しない）
+   */
+  static release(model: THREE.Object3D): boolean {
+    const key = this.instanceKeys.get(model);
+    if (!key) {
+      return false;
+    }
+    this.instanceKeys.delete(model);
+
+    const entry = this.entries.get(key);
+    const sharedMaterials = new Set<THREE.Material>();
+    entry?.template?.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        (Array.isArray(child.material) ? child.material : [child.material]).forEach(material => sharedMaterials.add(material));
+      }
+    });
+    model.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        const materials = Array.isArray(child.material) ? child.material : [child.material];
+        materials.forEach(material => {
+          if (material && !sharedMaterials.has(material)) {
+            material.dispose();
+          }
+        });
+      }
+    });
+
+    if (entry) {
+      entry.refCount = Math.max(0, entry.refCount - 1);
+      if (entry.refCount === 0) {
+        this.scheduleRelease(key, entry);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 直近の読み込みに失敗したモデルの情報を取得
+   * @param url - モデルのURL
+   * @param format - モデル形式
+   * @returns 失敗情報（失敗していない、または再取得に成功した場合は未定義）
+   */
+  static getFailure(url: string, format: ResolvedModelFormat): ModelLoadFailure | undefined {
+    return this.failures.get(`${format}:${url}`);
+  }
+
+  /**
+   * 読み込み失敗の一覧が変わった時に通知を受け取る（オブジェクトエディタでの表示用）
+   * @param listener - 変更時に呼び出す関数
+   * @returns 登録を解除する関数
+   */
+  static subscribeFailures(listener: () => void): () => void {
+    this.failureListeners.add(listener);
+    return () => {
+      this.failureListeners.delete(listener);
+    };
+  }
+
+  /**
+   * ローダーのエラーから表示用の情報を取り出す
+   * @param error - FileLoaderのHttpError、fetchのTypeError、解析エラー等
+   * @returns HTTPステータス、メッセージ、CORSの可能性
+   */
+  static describeError(error: any): Omit<ModelLoadFailure, 'url' | 'format'> {
+    const status = error?.response?.status ?? error?.target?.status;
+    const httpStatus = typeof status === 'number' && status > 0 ? status : undefined;
+    const message = error?.message || String(error);
+    // fetchはCORSで遮断された場合も応答の無いTypeErrorになる
+    const corsSuspected = httpStatus === undefined && (error instanceof TypeError || /cors|network|fetch/i.test(message));
+    return { httpStatus, message, corsSuspected };
+  }
+
+  private static notifyFailureListeners(): void {
+    this.failureListeners.forEach(listener => listener());
+  }
+
+  private static createInstance(template: THREE.Group, key: string): THREE.Group {
+    // スキンメッシュのボーン参照も複製されるようSkeletonUtilsで複製
+    // マテリアルは取得側（applyMaterialOverrides）が元のマテリアルから複製するため、ここでは複製しない
+    const instance = cloneSkinned(template) as THREE.Group;
+    this.instanceKeys.set(instance, key);
+    return instance;
+  }
+
+  private static scheduleRelease(key: string, entry: ModelCacheEntry): void {
+    this.cancelRelease(entry);
+    entry.releaseTimer = setTimeout(() => {
+      if (entry.refCount > 0 || this.entries.get(key) !== entry) {
+        return;
+      }
+      this.entries.delete(key);
+      entry.template?.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          child.geometry?.dispose();
+          const materials = Array.isArray(child.material) ? child.material : [child.material];
+          materials.forEach(material => {
+            Object.values(material).forEach(value => {
+              if (value instanceof THREE.Texture) {
+                value.dispose();
+              }
+            });
+            material.dispose();
+          });
+        }
+      });
+    }, RELEASE_DELAY_MS);
+  }
+
+  private static cancelRelease(entry: ModelCacheEntry): void {
+    if (entry.releaseTimer) {
+      clearTimeout(entry.releaseTimer);
+      entry.releaseTimer = undefined;
+    }
+  }
+}
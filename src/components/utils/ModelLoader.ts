@@ -0,0 +1,114 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader';
+import { ModelFormat } from '../../types';
+import { ShapeModelParsers } from './ShapeModelParsers';
+
+export type ResolvedModelFormat = Exclude<ModelFormat, 'auto'>;
+
+export class ModelLoader {
+  private gltfLoader = new GLTFLoader();
+  private objLoader = new OBJLoader();
+  private stlLoader = new STLLoader();
+  private plyLoader = new PLYLoader();
+  private textLoader = new THREE.FileLoader();
+
+  /**
+   * URLの拡張子からモデル形式を判定
+   * @param url - モデルのURL（クエリ文字列・フラグメントは無視）
+   * @param format - 明示的に指定された形式（'auto'または未指定の場合は拡張子から判定）
+   * @returns 読み込みに使用する形式（不明な拡張子はglTF）
+   */
+  static resolveFormat(url: string, format?: ModelFormat): ResolvedModelFormat {
+    if (format && format !== 'auto') {
+      return format;
+    }
+
+    const path = url.split(/[?#]/)[0].toLowerCase();
+    const extension = path.substring(path.lastIndexOf('.') + 1);
+    switch (extension) {
+      case 'obj':
+        return 'obj';
+      case 'stl':
+        return 'stl';
+      case 'ply':
+        return 'ply';
+      case 'icq':
+        return 'icq';
+      case 'plt':
+      case 'tab':
+        return 'plate';
+      default:
+        return 'gltf';
+    }
+  }
+
+  /**
+   * モデルを読み込み、形式によらずGroupとして返す
+   * STL・PLY・小天体形状モデル（ICQ・plate）はジオメトリのみのため、標準マテリアルのメッシュを作成する
+   * @param url - モデルのURL
+   * @param format - モデル形式
+   * @param onLoad - 読み込み完了時のコールバック
+   * @param onProgress - 読み込み進捗のコールバック
+   * @param onError - 読み込み失敗時のコールバック
+   */
+  load(
+    url: string,
+    format: ResolvedModelFormat,
+    onLoad: (model: THREE.Group) => void,
+    onProgress?: (event: ProgressEvent) => void,
+    onError?: (error: unknown) => void
+  ): void {
+    switch (format) {
+      case 'obj':
+        this.objLoader.load(url, onLoad, onProgress, onError);
+        break;
+      case 'stl':
+        this.stlLoader.load(url, (geometry) => onLoad(ModelLoader.createMeshGroup(geometry)), onProgress, onError);
+        break;
+      case 'ply':
+        this.plyLoader.load(url, (geometry) => onLoad(ModelLoader.createMeshGroup(geometry)), onProgress, onError);
+        break;
+      case 'icq':
+      case 'plate':
+        this.textLoader.load(url, (text) => {
+          let geometry: THREE.BufferGeometry;
+          try {
+            geometry = ShapeModelParsers.parse(text as string, format);
+          } catch (error) {
+            onError?.(error);
+            return;
+          }
+          onLoad(ModelLoader.createMeshGroup(geometry));
+        }, onProgress, onError);
+        break;
+      default:
+        this.gltfLoader.load(url, (gltf) => onLoad(gltf.scene), onProgress, onError);
+        break;
+    }
+  }
+
+  /**
+   * ジオメトリのみの形式（STL・PLY・ICQ・plate）からメッシュを作成
+   * @param geometry - 読み込んだジオメトリ
+   * @returns メッシュを1つ含むGroup（頂点カラーがある場合は頂点カラーを使用）
+   */
+  static createMeshGroup(geometry: THREE.BufferGeometry): THREE.Group {
+    if (!geometry.getAttribute('normal')) {
+      geometry.computeVertexNormals();
+    }
+
+    const material = new THREE.MeshStandardMaterial({
+      color: geometry.getAttribute('color') ? 0xffffff : 0xaaaaaa,
+      vertexColors: !!geometry.getAttribute('color'),
+      roughness: 0.8,
+      metalness: 0.1
+    });
+
+    const group = new THREE.Group();
+    group.add(new THREE.Mesh(geometry, material));
+    return group;
+  }
+}
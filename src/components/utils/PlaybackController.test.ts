@@ -0,0 +1,62 @@
+import { PlaybackController } from './PlaybackController';
+
+describe('PlaybackController', () => {
+  const range = { from: 1000, to: 5000 };
+
+  it('advances the scene time by the elapsed time times the speed', () => {
+    const controller = new PlaybackController();
+    controller.setSpeed(10);
+    controller.play();
+
+    // 再生開始直後の呼び出しは基準時刻の記録のみ
+    expect(controller.advance(2000, range, 100)).toBe(2000);
+    expect(controller.advance(2000, range, 200)).toBe(3000);
+  });
+
+  it('does not move the scene time while paused', () => {
+    const controller = new PlaybackController();
+    expect(controller.advance(2000, range, 100)).toBe(2000);
+  });
+
+  it('wraps to the start of the range when looping', () => {
+    const controller = new PlaybackController();
+    controller.setSpeed(100);
+    controller.play();
+    controller.advance(4900, range, 0);
+
+    expect(controller.advance(4900, range, 10)).toBe(range.from);
+    expect(controller.isPlaying()).toBe(true);
+  });
+
+  it('stops at the end of the range without looping', () => {
+    const controller = new PlaybackController();
+    controller.setSpeed(100);
+    controller.setLoop(false);
+    controller.play();
+    controller.advance(4900, range, 0);
+
+    expect(controller.advance(4900, range, 10)).toBe(range.to);
+    expect(controller.isPlaying()).toBe(false);
+  });
+
+  it('steps to the next and previous sample inside the range', () => {
+    const controller = new PlaybackController();
+    const samples = [0, 1000, 2000, 3000, 6000];
+
+    expect(controller.step(1500, samples, 1, range)).toBe(2000);
+    expect(controller.step(1500, samples, -1, range)).toBe(1000);
+    expect(controller.step(2000, samples, 1, range)).toBe(3000);
+  });
+
+  it('wraps or clamps when stepping past the last sample', () => {
+    const controller = new PlaybackController();
+    const samples = [1000, 2000, 3000];
+
+    expect(controller.step(3000, samples, 1, range)).toBe(1000);
+    expect(controller.step(1000, samples, -1, range)).toBe(3000);
+
+    controller.setLoop(false);
+    expect(controller.step(3000, samples, 1, range)).toBe(3000);
+    expect(controller.step(1000, samples, -1, range)).toBe(1000);
+  });
+});
@@ -0,0 +1,98 @@
+export type PlaybackSpeed = 1 | 10 | 100 | 1000;
+
+export interface PlaybackRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * シーン時刻の再生コントローラー
+ * アニメーションループから毎フレーム呼び出され、経過した実時間に再生速度を掛けてシーン時刻を進める
+ */
+export class PlaybackController {
+  private playing = false;
+  private speed: PlaybackSpeed = 1;
+  private loop = true;
+  private lastTimestamp: number | null = null;
+
+  play(): void {
+    this.playing = true;
+    this.lastTimestamp = null;
+  }
+
+  pause(): void {
+    this.playing = false;
+    this.lastTimestamp = null;
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  setSpeed(speed: PlaybackSpeed): void {
+    this.speed = speed;
+  }
+
+  setLoop(loop: boolean): void {
+    this.loop = loop;
+  }
+
+  /**
+   * 前回呼び出しからの経過時間に応じてシーン時刻を進める
+   * @param currentTime - 現在のシーン時刻（ミリ秒）
+   * @param range - 再生範囲（ダッシュボードの時間範囲）
+   * @param timestamp - 実時間のタイムスタンプ（performance.now()）
+   * @returns 進めた後のシーン時刻
+   */
+  advance(currentTime: number, range: PlaybackRange, timestamp: number): number {
+    if (!this.playing) {
+      return currentTime;
+    }
+
+    const elapsed = this.lastTimestamp === null ? 0 : timestamp - this.lastTimestamp;
+    this.lastTimestamp = timestamp;
+
+    let next = Math.max(currentTime, range.from) + elapsed * this.speed;
+    if (next > range.to) {
+      if (this.loop) {
+        // 範囲の終端に達したら先頭に戻る
+        next = range.from;
+      } else {
+        next = range.to;
+        this.pause();
+      }
+    }
+
+    return next;
+  }
+
+  /**
+   * サンプル単位でシーン時刻を1コマ進める（戻す）
+   * @param currentTime - 現在のシーン時刻（ミリ秒）
+   * @param sampleTimes - 昇順のサンプル時刻
+   * @param direction - 1: 次のサンプル, -1: 前のサンプル
+   * @param range - 再生範囲（ループ時の折り返しに使用）
+   * @returns 移動後のシーン時刻
+   */
+  step(currentTime: number, sampleTimes: number[], direction: 1 | -1, range: PlaybackRange): number {
+    const inRange = sampleTimes.filter((t) => t >= range.from && t <= range.to);
+    if (inRange.length === 0) {
+      return currentTime;
+    }
+
+    if (direction > 0) {
+      const next = inRange.find((t) => t > currentTime);
+      if (next !== undefined) {
+        return next;
+      }
+      return this.loop ? inRange[0] : inRange[inRange.length - 1];
+    }
+
+    for (let i = inRange.length - 1; i >= 0; i--) {
+      if (inRange[i] < currentTime) {
+        return inRange[i];
+      }
+    }
+    return this.loop ? inRange[inRange.length - 1] : inRange[0];
+  }
+}
@@ -0,0 +1,72 @@
+import * as THREE from 'three';
+import { BodyRotationSettings, J2000_EPOCH, ReferenceFrame } from './ReferenceFrame';
+
+describe('ReferenceFrame', () => {
+  // 座標系の各軸（慣性系での向き）
+  const getAxes = (quaternion: THREE.Quaternion) => [
+    new THREE.Vector3(1, 0, 0).applyQuaternion(quaternion),
+    new THREE.Vector3(0, 1, 0).applyQuaternion(quaternion),
+    new THREE.Vector3(0, 0, 1).applyQuaternion(quaternion),
+  ];
+
+  describe('lvlhQuaternion', () => {
+    it('returns orthonormal radial, in-track and cross-track axes', () => {
+      const position = new THREE.Vector3(7000, 300, -200);
+      const velocity = new THREE.Vector3(0.5, 7.4, 1.2);
+      const [radial, inTrack, crossTrack] = getAxes(ReferenceFrame.lvlhQuaternion(position, velocity)!);
+
+      expect(radial.dot(inTrack)).toBeCloseTo(0);
+      expect(inTrack.dot(crossTrack)).toBeCloseTo(0);
+      expect(radial.dot(crossTrack)).toBeCloseTo(0);
+      expect(new THREE.Vector3().crossVectors(radial, inTrack).dot(crossTrack)).toBeCloseTo(1);
+
+      expect(radial.dot(position.clone().normalize())).toBeCloseTo(1);
+      expect(crossTrack.dot(new THREE.Vector3().crossVectors(position, velocity).normalize())).toBeCloseTo(1);
+      expect(inTrack.dot(velocity)).toBeGreaterThan(0);
+    });
+
+    it('aligns in-track with the velocity on a circular orbit', () => {
+      const [, inTrack] = getAxes(ReferenceFrame.lvlhQuaternion(new THREE.Vector3(7000, 0, 0), new THREE.Vector3(0, 7.5, 0))!);
+      expect(inTrack.y).toBeCloseTo(1);
+    });
+
+    it('returns null when the frame is undefined', () => {
+      expect(ReferenceFrame.lvlhQuaternion(new THREE.Vector3(), new THREE.Vector3(0, 1, 0))).toBeNull();
+      expect(ReferenceFrame.lvlhQuaternion(new THREE.Vector3(1, 0, 0), new THREE.Vector3(2, 0, 0))).toBeNull();
+    });
+  });
+
+  describe('poleRotationQuaternion', () => {
+    const settings: BodyRotationSettings = { source: 'pole', poleRa: 40, poleDec: 60, period: 10, epoch: J2000_EPOCH, w0: 0 };
+    const toRad = THREE.MathUtils.degToRad;
+
+    it('points the body Z axis at the pole', () => {
+      const [, , pole] = getAxes(ReferenceFrame.poleRotationQuaternion(settings, J2000_EPOCH));
+      const dec = toRad(settings.poleDec);
+      const ra = toRad(settings.poleRa);
+
+      expect(pole.x).toBeCloseTo(Math.cos(dec) * Math.cos(ra));
+      expect(pole.y).toBeCloseTo(Math.cos(dec) * Math.sin(ra));
+      expect(pole.z).toBeCloseTo(Math.sin(dec));
+    });
+
+    it('places the prime meridian at the ascending node at the epoch when W0 is zero', () => {
+      const [meridian] = getAxes(ReferenceFrame.poleRotationQuaternion(settings, J2000_EPOCH));
+      const ra = toRad(settings.poleRa);
+
+      expect(meridian.x).toBeCloseTo(-Math.sin(ra));
+      expect(meridian.y).toBeCloseTo(Math.cos(ra));
+      expect(meridian.z).toBeCloseTo(0);
+    });
+
+    it('turns the prime meridian about the pole once per period', () => {
+      const start = ReferenceFrame.poleRotationQuaternion(settings, J2000_EPOCH);
+      const quarter = ReferenceFrame.poleRotationQuaternion(settings, J2000_EPOCH + 2.5 * 3600 * 1000);
+      const full = ReferenceFrame.poleRotationQuaternion(settings, J2000_EPOCH + 10 * 3600 * 1000);
+
+      expect(full.angleTo(start)).toBeCloseTo(0);
+      expect(getAxes(quarter)[0].dot(getAxes(start)[1])).toBeCloseTo(1);
+      expect(getAxes(quarter)[2].dot(getAxes(start)[2])).toBeCloseTo(1);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import * as THREE from 'three';
+
+export type ReferenceFrameMode = 'inertial' | 'lvlh' | 'bodyFixed';
+
+// 天体固定座標系の自転設定
+export interface BodyRotationSettings {
+  source: 'pole' | 'quaternion'; // 自転モデル（極方向・周期）または基準オブジェクトのクオータニオン
+  poleRa: number; // 北極の赤経（度）
+  poleDec: number; // 北極の赤緯（度）
+  period: number; // 自転周期（時間）
+  epoch: number; // 基準時刻（ミリ秒）
+  w0: number; // 基準時刻における本初子午線の角度（度）
+}
+
+export const J2000_EPOCH = Date.UTC(2000, 0, 1, 12, 0, 0);
+
+export class ReferenceFrame {
+  /**
+   * 位置・速度からLVLH（RIC / Hill）座標系の姿勢を計算
+   * X: Radial（位置方向）、Y: In-track（R×Cの方向、円軌道では速度方向）、Z: Cross-track（軌道面法線 r×v）
+   * @param position - 中心天体に対する基準オブジェクトの位置
+   * @param velocity - 基準オブジェクトの速度
+   * @returns LVLH座標系から慣性系への回転（位置・速度が平行等で定義できない場合はnull）
+   */
+  static lvlhQuaternion(position: THREE.Vector3, velocity: THREE.Vector3): THREE.Quaternion | null {
+    const radial = position.clone();
+    const crossTrack = new THREE.Vector3().crossVectors(position, velocity);
+    if (radial.lengthSq() === 0 || crossTrack.lengthSq() === 0) {
+      return null;
+    }
+
+    radial.normalize();
+    crossTrack.normalize();
+    const inTrack = new THREE.Vector3().crossVectors(crossTrack, radial);
+
+    const rotation = new THREE.Matrix4().makeBasis(radial, inTrack, crossTrack);
+    return new THREE.Quaternion().setFromRotationMatrix(rotation);
+  }
+
+  /**
+   * 極方向と自転角から天体固定座標系の姿勢を計算（IAU自転モデル）
+   * 天体固定系→慣性系の回転は Rz(α + 90°)・Rx(90° - δ)・Rz(W)
+   * @param settings - 極の赤経・赤緯、自転周期、基準時刻と本初子午線の角度
+   * @param time - 時刻（ミリ秒）
+   * @returns 天体固定座標系から慣性系への回転
+   */
+  static poleRotationQuaternion(settings: BodyRotationSettings, time: number): THREE.Quaternion {
+    const periodMs = settings.period * 3600 * 1000;
+    const rotationDeg = settings.w0 + (periodMs !== 0 ? 360 * (time - settings.epoch) / periodMs : 0);
+
+    const toRad = THREE.MathUtils.degToRad;
+    const zAxis = new THREE.Vector3(0, 0, 1);
+    const xAxis = new THREE.Vector3(1, 0, 0);
+    return new THREE.Quaternion().setFromAxisAngle(zAxis, toRad(settings.poleRa + 90))
+      .multiply(new THREE.Quaternion().setFromAxisAngle(xAxis, toRad(90 - settings.poleDec)))
+      .multiply(new THREE.Quaternion().setFromAxisAngle(zAxis, toRad(rotationDeg % 360)));
+  }
+}
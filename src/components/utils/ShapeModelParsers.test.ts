@@ -0,0 +1,109 @@
+import * as THREE from 'three';
+import { ShapeModelParsers } from './ShapeModelParsers';
+
+// 立方体の各面の(q+1)x(q+1)格子を球面に投影したICQ形式のテキスト
+const createICQ = (q: number, radius = 1): string => {
+  const faces: Array<(u: number, v: number) => [number, number, number]> = [
+    (u, v) => [u, v, 1],
+    (u, v) => [1, u, v],
+    (u, v) => [-u, 1, v],
+    (u, v) => [-1, -u, v],
+    (u, v) => [u, -1, -v],
+    (u, v) => [u, -v, -1],
+  ];
+  const lines = [`${q}`];
+  faces.forEach((face) => {
+    for (let j = 0; j <= q; j++) {
+      for (let i = 0; i <= q; i++) {
+        const point = new THREE.Vector3(...face(-1 + (2 * i) / q, -1 + (2 * j) / q)).setLength(radius);
+        lines.push(`${point.x.toExponential(6)} ${point.y.toExponential(6)} ${point.z.toExponential(6)}`);
+      }
+    }
+  });
+  return lines.join('\n');
+};
+
+// 正四面体（頂点4、面4）
+const TETRAHEDRON_VERTICES = ['1 1 1', '1 -1 -1', '-1 1 -1', '-1 -1 1'];
+const TETRAHEDRON_FACETS = ['1 2 3', '1 3 4', '1 4 2', '2 4 3'];
+
+// 外向きの面の符号付き体積の合計（閉じた形状では正の体積になる）
+const getSignedVolume = (geometry: THREE.BufferGeometry): number => {
+  const position = geometry.getAttribute('position');
+  const index = geometry.getIndex()!;
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  let volume = 0;
+  for (let i = 0; i < index.count; i += 3) {
+    a.fromBufferAttribute(position, index.getX(i));
+    b.fromBufferAttribute(position, index.getX(i + 1));
+    c.fromBufferAttribute(position, index.getX(i + 2));
+    volume += a.dot(b.cross(c)) / 6;
+  }
+  return volume;
+};
+
+describe('ShapeModelParsers', () => {
+  describe('parseICQ', () => {
+    it('creates two triangles per grid cell and merges the shared edges', () => {
+      const q = 4;
+      const geometry = ShapeModelParsers.parse(createICQ(q), 'icq');
+
+      expect(geometry.getIndex()!.count / 3).toBe(6 * q * q * 2);
+      // 面の境界で重複した頂点を結合すると 6q² + 2 頂点になる
+      expect(geometry.getAttribute('position').count).toBe(6 * q * q + 2);
+      expect(geometry.getAttribute('normal')).toBeDefined();
+    });
+
+    it('orients the faces outward', () => {
+      expect(getSignedVolume(ShapeModelParsers.parseICQ(createICQ(4, 2)))).toBeGreaterThan(0);
+    });
+
+    it('rejects files with missing vertices', () => {
+      const text = createICQ(2).split('\n').slice(0, 10).join('\n');
+      expect(() => ShapeModelParsers.parseICQ(text)).toThrow('ICQ: expected 54 vertices');
+    });
+  });
+
+  describe('parsePlate', () => {
+    it('reads numbered vertices and facets with separate counts', () => {
+      const text = [
+        '4',
+        ...TETRAHEDRON_VERTICES.map((vertex, i) => `${i + 1} ${vertex}`),
+        '4',
+        ...TETRAHEDRON_FACETS.map((facet, i) => `${i + 1} ${facet}`),
+      ].join('\n');
+      const geometry = ShapeModelParsers.parse(text, 'plate');
+
+      expect(geometry.getAttribute('position').count).toBe(4);
+      expect(geometry.getIndex()!.count / 3).toBe(4);
+      expect(getSignedVolume(geometry)).toBeGreaterThan(0);
+    });
+
+    it('reads a combined header, unnumbered rows and Fortran exponents', () => {
+      const text = [
+        '4 4',
+        ...TETRAHEDRON_VERTICES.map(vertex => vertex.split(' ').map(value => `${value}.0D+00`).join(' ')),
+        ...TETRAHEDRON_FACETS,
+      ].join('\n');
+      const geometry = ShapeModelParsers.parsePlate(text);
+
+      expect(geometry.getAttribute('position').count).toBe(4);
+      expect(geometry.getIndex()!.count / 3).toBe(4);
+      expect(geometry.getAttribute('position').getX(1)).toBe(1);
+    });
+
+    it('flips inward-facing facets', () => {
+      const inward = TETRAHEDRON_FACETS.map(facet => facet.split(' ').reverse().join(' '));
+      const text = ['4 4', ...TETRAHEDRON_VERTICES, ...inward].join('\n');
+
+      expect(getSignedVolume(ShapeModelParsers.parsePlate(text))).toBeGreaterThan(0);
+    });
+
+    it('rejects facets that reference missing vertices', () => {
+      const text = ['4 1', ...TETRAHEDRON_VERTICES, '1 2 5'].join('\n');
+      expect(() => ShapeModelParsers.parsePlate(text)).toThrow('Plate: invalid facet');
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import * as THREE from 'three';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils';
+
+export type ShapeModelFormat = 'icq' | 'plate';
+
+export class ShapeModelParsers {
+  /**
+   * 小天体形状モデルのテキストをジオメトリに変換
+   * @param text - ファイルの内容
+   * @param format - ICQ（implicitly connected quadrilateral）またはSPC/Gaskellの頂点・面（plate）形式
+   * @returns 法線を計算済みのインデックス付きジオメトリ
+   */
+  static parse(text: string, format: ShapeModelFormat): THREE.BufferGeometry {
+    return format === 'icq' ? this.parseICQ(text) : this.parsePlate(text);
+  }
+
+  /**
+   * ICQ形式を解析
+   * 1行目が分割数q、以降に立方体の6面それぞれの(q+1)x(q+1)格子の頂点（x y z）が面・行・列の順に並ぶ
+   * 面どうしの境界の頂点は重複して格納されているため、読み込み後に結合する
+   * @param text - ファイルの内容
+   * @returns 法線を計算済みのインデックス付きジオメトリ
+   */
+  static parseICQ(text: string): THREE.BufferGeometry {
+    const lines = this.splitLines(text);
+    const q = parseInt(lines[0]?.[0] ?? '', 10);
+    if (!Number.isInteger(q) || q <= 0) {
+      throw new Error('ICQ: the first line must be the grid resolution q');
+    }
+
+    const side = q + 1;
+    const vertexCount = 6 * side * side;
+    if (lines.length - 1 < vertexCount) {
+      throw new Error(`ICQ: expected ${vertexCount} vertices for q=${q}, found ${lines.length - 1}`);
+    }
+
+    const positions: number[] = [];
+    for (let n = 1; n <= vertexCount; n++) {
+      const [x, y, z] = lines[n].map(this.parseNumber);
+      if (![x, y, z].every(isFinite)) {
+        throw new Error(`ICQ: invalid vertex on line ${n + 1}`);
+      }
+      positions.push(x, y, z);
+    }
+
+    // 各面の格子の四角形を2つの三角形に分割（面ごとに外向きになるよう向きを揃える）
+    const indices: number[] = [];
+    const vertexIndex = (face: number, i: number, j: number) => (face * side + j) * side + i;
+    for (let face = 0; face < 6; face++) {
+      const faceIndices: number[] = [];
+      for (let j = 0; j < q; j++) {
+        for (let i = 0; i < q; i++) {
+          const a = vertexIndex(face, i, j);
+          const b = vertexIndex(face, i + 1, j);
+          const c = vertexIndex(face, i + 1, j + 1);
+          const d = vertexIndex(face, i, j + 1);
+          faceIndices.push(a, b, c, a, c, d);
+        }
+      }
+      indices.push(...this.orientOutward(positions, faceIndices));
+    }
+
+    return this.createGeometry(positions, indices, true);
+  }
+
+  /**
+   * SPC/Gaskellの頂点・面（plate）形式を解析
+   * 頂点数、頂点（番号 x y z）、面数、面（番号 頂点1 頂点2 頂点3、1始まり）の順に並ぶ
+   * 1行目が「頂点数 面数」の場合や、番号の列が無い場合にも対応
+   * @param text - ファイルの内容
+   * @returns 法線を計算済みのインデックス付きジオメトリ
+   */
+  static parsePlate(text: string): THREE.BufferGeometry {
+    const lines = this.splitLines(text);
+    let line = 0;
+
+    const header = lines[line++] || [];
+    const vertexCount = parseInt(header[0] ?? '', 10);
+    let facetCount = header.length >= 2 ? parseInt(header[1], 10) : NaN;
+    if (!Number.isInteger(vertexCount) || vertexCount <= 0) {
+      throw new Error('Plate: the first line must be the vertex count');
+    }
+
+    const positions: number[] = [];
+    for (let n = 0; n < vertexCount; n++, line++) {
+      const tokens = lines[line];
+      if (!tokens) {
+        throw new Error(`Plate: expected ${vertexCount} vertices, found ${n}`);
+      }
+      const [x, y, z] = tokens.slice(tokens.length >= 4 ? 1 : 0, tokens.length >= 4 ? 4 : 3).map(this.parseNumber);
+      if (![x, y, z].every(isFinite)) {
+        throw new Error(`Plate: invalid vertex on line ${line + 1}`);
+      }
+      positions.push(x, y, z);
+    }
+
+    if (!Number.isInteger(facetCount)) {
+      facetCount = parseInt(lines[line++]?.[0] ?? '', 10);
+    }
+    if (!Number.isInteger(facetCount) || facetCount <= 0) {
+      throw new Error('Plate: missing facet count after the vertices');
+    }
+
+    const indices: number[] = [];
+    for (let n = 0; n < facetCount; n++, line++) {
+      const tokens = lines[line];
+      if (!tokens) {
+        throw new Error(`Plate: expected ${facetCount} facets, found ${n}`);
+      }
+      const start = tokens.length >= 4 ? 1 : 0;
+      const corners = tokens.slice(start, start + 3).map(token => parseInt(token, 10) - 1);
+      if (!corners.every(index => Number.isInteger(index) && index >= 0 && index < vertexCount)) {
+        throw new Error(`Plate: invalid facet on line ${line + 1}`);
+      }
+      indices.push(...corners);
+    }
+
+    return this.createGeometry(positions, this.orientOutward(positions, indices), false);
+  }
+
+  /**
+   * 三角形の向きが全体として外向き（重心から離れる向き）になるよう揃える
+   * @param positions - 頂点座標（x, y, zの並び）
+   * @param indices - 三角形の頂点インデックス
+   * @returns 内向きが多い場合は全三角形の向きを反転したインデックス
+   */
+  static orientOutward(positions: number[], indices: number[]): number[] {
+    const centroid = new THREE.Vector3();
+    for (let i = 0; i < positions.length; i += 3) {
+      centroid.x += positions[i];
+      centroid.y += positions[i + 1];
+      centroid.z += positions[i + 2];
+    }
+    centroid.divideScalar(Math.max(1, positions.length / 3));
+
+    const a = new THREE.Vector3();
+    const b = new THREE.Vector3();
+    const c = new THREE.Vector3();
+    const ab = new THREE.Vector3();
+    const ac = new THREE.Vector3();
+    let outward = 0;
+    for (let i = 0; i < indices.length; i += 3) {
+      a.fromArray(positions, indices[i] * 3);
+      b.fromArray(positions, indices[i + 1] * 3);
+      c.fromArray(positions, indices[i + 2] * 3);
+      ab.subVectors(b, a);
+      ac.subVectors(c, a);
+      const normal = ab.cross(ac);
+      outward += normal.dot(a.add(b).add(c).divideScalar(3).sub(centroid));
+    }
+
+    if (outward >= 0) {
+      return indices;
+    }
+
+    const flipped = [...indices];
+    for (let i = 0; i < flipped.length; i += 3) {
+      [flipped[i + 1], flipped[i + 2]] = [flipped[i + 2], flipped[i + 1]];
+    }
+    return flipped;
+  }
+
+  private static createGeometry(positions: number[], indices: number[], mergeDuplicates: boolean): THREE.BufferGeometry {
+    let geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setIndex(indices);
+
+    if (mergeDuplicates) {
+      // 面の境界で重複した頂点を結合して、境界で法線が途切れないようにする
+      geometry.computeBoundingSphere();
+      geometry = mergeVertices(geometry, Math.max((geometry.boundingSphere?.radius || 1) * 1e-6, 1e-9));
+    }
+
+    geometry.computeVertexNormals();
+    return geometry;
+  }
+
+  private static splitLines(text: string): string[][] {
+    return text
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && !line.startsWith('#'))
+      .map(line => line.split(/[\s,]+/));
+  }
+
+  // Fortranの指数表記（1.0D+00）にも対応
+  private static parseNumber(token: string): number {
+    return parseFloat(token.replace(/[dD]/, 'e'));
+  }
+}
@@ -0,0 +1,102 @@
+import { FieldType, LoadingState, PanelData, dateTime, getDefaultTimeRange, toDataFrame } from '@grafana/data';
+import { DataFieldProcessor } from './ThreeSceneHelpers';
+
+// 10秒間隔の位置と5秒間隔の距離（別のシリーズ）
+const createData = (ranges: number[]): PanelData => ({
+  state: LoadingState.Done,
+  timeRange: getDefaultTimeRange(),
+  series: [
+    toDataFrame({
+      refId: 'A',
+      fields: [
+        { name: 'time', type: FieldType.time, values: [0, 10000, 20000] },
+        { name: 'x', type: FieldType.number, values: [0, 100, 200] },
+      ],
+    }),
+    toDataFrame({
+      refId: 'B',
+      fields: [
+        { name: 'time', type: FieldType.time, values: [0, 5000, 10000, 15000, 20000] },
+        { name: 'range', type: FieldType.number, values: ranges },
+      ],
+    }),
+  ],
+});
+
+const field = (value: string) => ({ sourceType: 'field', value });
+
+describe('DataFieldProcessor', () => {
+  it('looks up values at a time with the selected join mode', () => {
+    const processor = new DataFieldProcessor(createData([1, 2, 3, 4, 5]));
+
+    expect(processor.getDataFieldValueAtTime(field('A.x'), 4000, 0, 'previous')).toBe(0);
+    expect(processor.getDataFieldValueAtTime(field('A.x'), 6000, 0, 'nearest')).toBe(100);
+    expect(processor.getDataFieldValueAtTime(field('A.x'), 4000, 0, 'linear')).toBeCloseTo(40);
+  });
+
+  it('holds the first and last samples outside the data', () => {
+    const processor = new DataFieldProcessor(createData([1, 2, 3, 4, 5]));
+
+    expect(processor.getDataFieldValueAtTime(field('A.x'), -1000, 0, 'linear')).toBe(0);
+    expect(processor.getDataFieldValueAtTime(field('A.x'), 30000, 0, 'linear')).toBe(200);
+  });
+
+  it('aligns a series with a different cadence to the bound time field', () => {
+    const processor = new DataFieldProcessor(createData([1, 2, 3, 4, 5]));
+
+    expect(processor.getAlignedDataFieldValue(field('B.range'), 'A.time')).toEqual([1, 3, 5]);
+  });
+
+  it('uses the latest sample time when no scene time is set', () => {
+    const processor = new DataFieldProcessor(createData([1, 2, 3, 4, 5]));
+    expect(processor.getEffectiveTime('A.time')).toBe(20000);
+
+    processor.setSceneTime(12000);
+    expect(processor.getEffectiveTime('A.time')).toBe(12000);
+  });
+
+  it('orders descending frames by time and skips invalid times', () => {
+    // ORDER BY time DESC のクエリ結果
+    const processor = new DataFieldProcessor({
+      ...createData([1, 2, 3, 4, 5]),
+      series: [
+        toDataFrame({
+          refId: 'C',
+          fields: [
+            { name: 'time', type: FieldType.time, values: [20000, null, 10000, 0] },
+            { name: 'x', type: FieldType.number, values: [200, 999, 100, 0] },
+            { name: 'label', type: FieldType.string, values: ['c', 'bad', 'b', 'a'] },
+          ],
+        }),
+      ],
+    });
+
+    expect(processor.getTimeFieldValues('C.time')).toEqual([0, 10000, 20000]);
+    expect(processor.getEffectiveTime('C.time')).toBe(20000);
+    expect(processor.getDataFieldValueAtTime(field('C.x'), 12000, 0, 'previous', 'C.time')).toBe(100);
+    expect(processor.getDataFieldValueAtTime(field('C.x'), 5000, 0, 'linear', 'C.time')).toBeCloseTo(50);
+    expect(processor.getAlignedDataFieldValue(field('C.x'), 'C.time')).toEqual([0, 100, 200]);
+    expect(processor.getLastDataFieldValue(field('C.x'))).toBe(200);
+    expect(processor.getFieldValueAsStringInTimeOrder(field('C.label'))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('uses the end of a past time range or the last sample as the dashboard now', () => {
+    const data = createData([1, 2, 3, 4, 5]);
+    const processor = new DataFieldProcessor({
+      ...data,
+      timeRange: { ...data.timeRange, from: dateTime(0), to: dateTime(15000) },
+    });
+    expect(processor.getDashboardNow()).toBe(15000);
+
+    processor.setData({ ...data, timeRange: undefined as any });
+    expect(processor.getDashboardNow()).toBe(20000);
+  });
+
+  it('reads the new values after the data is replaced', () => {
+    const processor = new DataFieldProcessor(createData([1, 2, 3, 4, 5]));
+    expect(processor.getDataFieldValueAtTime(field('B.range'), 5000)).toBe(2);
+
+    processor.setData(createData([10, 20, 30, 40, 50]));
+    expect(processor.getDataFieldValueAtTime(field('B.range'), 5000)).toBe(20);
+  });
+});
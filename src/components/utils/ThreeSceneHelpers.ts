@@ -1,9 +1,13 @@
 import * as THREE from 'three';
-import { Shape } from '../../types';
-import { PanelData } from '@grafana/data';
+import { Shape, TimeJoinMode } from '../../types';
+import { DataFrame, Field, FieldType, PanelData } from '@grafana/data';
+import { SampleBracket, TimeInterpolation } from './TimeInterpolation';
 
 export class DataFieldProcessor {
   public data?: PanelData;
+  private sceneTime?: number; // シーン時刻（未設定の場合は最新サンプルを表示）
+  private samplesCache: Map<string, { times: number[]; values: number[] } | null> = new Map(); // データ更新まで時刻・値の配列を再利用
+  private timeValuesCache: Map<string, number[]> = new Map(); // 時刻フィールドごとの時刻の配列
 
   constructor(data?: PanelData) {
     this.data = data;
@@ -12,6 +16,8 @@ export class DataFieldProcessor {
   // データが新しく設定された際の処理
   setData(newData?: PanelData): void {
     this.data = newData;
+    this.samplesCache.clear();
+    this.timeValuesCache.clear();
   }
 
   // Helper function to get value from DataField as strings (for annotations)
@@ -212,10 +218,10 @@ export class DataFieldProcessor {
     });
   }
 
-  // Get last value from DataField
+  // Get last value from DataField (the latest sample when the series has a time field)
   getLastDataFieldValue(field: any, defaultValue = 0): number {
     try {
-      const values = this.getDataFieldValue(field, defaultValue);
+      const values = this.getFieldSamples(field)?.values ?? this.getDataFieldValue(field, defaultValue);
       const lastValue = values[values.length - 1];
       
       // Ensure the value is finite and valid
@@ -303,6 +309,311 @@ export class DataFieldProcessor {
     const values = this.getFieldValueAsString(field, defaultValue);
     return values[values.length - 1] || defaultValue;
   }
+
+  // シーン時刻を設定（undefinedの場合は最新サンプルに戻る）
+  setSceneTime(time?: number): void {
+    this.sceneTime = time;
+  }
+
+  getSceneTime(): number | undefined {
+    return this.sceneTime;
+  }
+
+  // ダッシュボードの現在時刻（過去の時間範囲を表示中は範囲の終了時刻、時間範囲が無い場合は最新サンプル）
+  getDashboardNow(): number {
+    const now = Date.now();
+    if (this.data?.timeRange) {
+      return Math.min(now, this.data.timeRange.to.valueOf());
+    }
+    const times = this.getSampleTimes();
+    return times.length > 0 ? times[times.length - 1] : now;
+  }
+
+  // クエリの時間範囲を取得（ミリ秒）
+  getTimeRange(): { from: number; to: number } | null {
+    if (this.data?.timeRange) {
+      return {
+        from: this.data.timeRange.from.valueOf(),
+        to: this.data.timeRange.to.valueOf()
+      };
+    }
+
+    // timeRangeが無い場合は時刻フィールドの最小・最大値を使用
+    let from = Infinity, to = -Infinity;
+    this.data?.series.forEach((series) => {
+      const timeField = series.fields.find(f => f.type === FieldType.time);
+      if (timeField) {
+        this.processTimeValues(timeField).forEach((t) => {
+          from = Math.min(from, t);
+          to = Math.max(to, t);
+        });
+      }
+    });
+
+    return isFinite(from) && isFinite(to) ? { from, to } : null;
+  }
+
+  // 全シリーズの時刻フィールドに含まれるサンプル時刻（昇順・重複なし）を取得
+  getSampleTimes(): number[] {
+    const times = new Set<number>();
+    this.data?.series.forEach((series) => {
+      const timeField = series.fields.find(f => f.type === FieldType.time);
+      if (timeField) {
+        this.processTimeValues(timeField).forEach((t) => {
+          if (isFinite(t)) {
+            times.add(t);
+          }
+        });
+      }
+    });
+    return Array.from(times).sort((a, b) => a - b);
+  }
+
+  // Get value from DataField at the current scene time (falls back to the last sample)
+  getCurrentDataFieldValue(field: any, defaultValue = 0, timeField?: string, mode: TimeJoinMode = 'previous'): number {
+    const time = this.getEffectiveTime(timeField);
+    if (time === undefined) {
+      return this.getLastDataFieldValue(field, defaultValue);
+    }
+    return this.getDataFieldValueAtTime(field, time, defaultValue, mode, timeField);
+  }
+
+  // 値を参照する時刻を取得（シーン時刻、未設定の場合は時刻フィールドの最新サンプル）
+  getEffectiveTime(timeField?: string): number | undefined {
+    if (this.sceneTime !== undefined) {
+      return this.sceneTime;
+    }
+    if (!timeField) {
+      return undefined;
+    }
+
+    const times = this.getTimeFieldValues(timeField);
+    return times.length > 0 ? times[times.length - 1] : undefined;
+  }
+
+  // 時刻フィールドの値（ミリ秒、昇順・無効な時刻を除く）を取得（データ更新まで同じ配列を返すため、呼び出し側で変更しないこと）
+  getTimeFieldValues(timeField: string): number[] {
+    let times = this.timeValuesCache.get(timeField);
+    if (!times) {
+      const resolved = this.resolveSeriesField(timeField);
+      times = resolved ? this.processTimeValues(resolved.field).filter(t => isFinite(t)).sort((a, b) => a - b) : [];
+      this.timeValuesCache.set(timeField, times);
+    }
+    return times;
+  }
+
+  // Get value from DataField at the given timestamp
+  // previous: sample at or before the time, nearest: closest sample, linear: interpolated between the surrounding samples
+  getDataFieldValueAtTime(field: any, time: number, defaultValue = 0, mode: TimeJoinMode = 'previous', timeField?: string): number {
+    const bracket = this.getFieldBracketAtTime(field, time, timeField);
+    if (!bracket) {
+      return this.getLastDataFieldValue(field, defaultValue);
+    }
+
+    let value = bracket.v0;
+    if (mode === 'linear') {
+      value = TimeInterpolation.lerp(bracket, time);
+    } else if (mode === 'nearest' && time - bracket.t0 > bracket.t1 - time) {
+      value = bracket.v1;
+    }
+    return isFinite(value) ? value : defaultValue;
+  }
+
+  // 時刻フィールドの各サンプル時刻に揃えた値の配列を取得（ポリライン・注釈用）
+  getAlignedDataFieldValue(field: any, timeField?: string, mode: TimeJoinMode = 'previous', defaultValue = 0): number[] {
+    if (!timeField || !field || field.sourceType !== 'field') {
+      // 時刻フィールドを紐付けていない場合もシリーズの時刻順に並べる
+      return this.getFieldSamples(field)?.values ?? this.getDataFieldValue(field, defaultValue);
+    }
+
+    const times = this.getTimeFieldValues(timeField);
+    if (times.length === 0) {
+      return this.getDataFieldValue(field, defaultValue);
+    }
+
+    return times.map(t => this.getDataFieldValueAtTime(field, t, defaultValue, mode, timeField));
+  }
+
+  // 指定時刻を挟む前後のサンプルを取得（範囲外の場合は端のサンプルを両方に設定）
+  getFieldBracketAtTime(field: any, time: number, timeField?: string): SampleBracket | null {
+    const samples = this.getFieldSamples(field, timeField);
+    if (!samples) {
+      return null;
+    }
+
+    const { times, values } = samples;
+    const index = this.findSampleIndex(times, time);
+    if (index < 0) {
+      return { t0: times[0], t1: times[0], v0: values[0], v1: values[0] };
+    }
+    if (index >= times.length - 1) {
+      const last = times.length - 1;
+      return { t0: times[last], t1: times[last], v0: values[last], v1: values[last] };
+    }
+
+    return { t0: times[index], t1: times[index + 1], v0: values[index], v1: values[index + 1] };
+  }
+
+  // フィールドの値と対応する時刻の配列を取得（時刻の昇順・無効な時刻を除く、時刻フィールドが無い場合はnull）
+  // timeFieldを指定した場合は同じシリーズのフィールドを優先し、そのシリーズでは指定の時刻フィールドを使用
+  getFieldSamples(field: any, timeField?: string): { times: number[]; values: number[] } | null {
+    if (!field || field.sourceType !== 'field' || !this.data?.series) {
+      return null;
+    }
+
+    const cacheKey = `${field.value}\u0000${timeField || ''}`;
+    if (!this.samplesCache.has(cacheKey)) {
+      this.samplesCache.set(cacheKey, this.loadFieldSamples(field.value, timeField));
+    }
+    return this.samplesCache.get(cacheKey)!;
+  }
+
+  private loadFieldSamples(reference: string, timeField?: string): { times: number[]; values: number[] } | null {
+    const source = this.resolveSampleSource(reference, timeField);
+    if (!source) {
+      return null;
+    }
+
+    const values = this.processFieldValues(source.field);
+    const order = this.getTimeOrder(source.times, values.length);
+    if (order.length === 0) {
+      return null;
+    }
+
+    return { times: order.map(i => source.times[i]), values: order.map(i => values[i]) };
+  }
+
+  // 文字列のフィールドの値をシリーズの時刻順に取得（注釈のテキストを位置と揃えるため、時刻フィールドが無い場合はそのままの順序）
+  getFieldValueAsStringInTimeOrder(field: any, timeField?: string, defaultValue = ''): string[] {
+    const source = field?.sourceType === 'field' ? this.resolveSampleSource(field.value, timeField) : null;
+    if (!source) {
+      return this.getFieldValueAsString(field, defaultValue);
+    }
+
+    const values = this.processFieldValuesAsString(source.field);
+    return this.getTimeOrder(source.times, values.length).map(i => values[i]);
+  }
+
+  // フィールドと、その値に対応する時刻フィールドの値を取得（時刻フィールドの無いシリーズの場合はnull）
+  private resolveSampleSource(reference: string, timeField?: string): { field: Field; times: number[] } | null {
+    const boundTime = timeField ? this.resolveSeriesField(timeField) : null;
+    const resolved = this.resolveSeriesField(reference, boundTime?.series);
+    if (!resolved) {
+      return null;
+    }
+
+    const seriesTimeField = boundTime && boundTime.series === resolved.series
+      ? boundTime.field
+      : resolved.series.fields.find(f => f.type === FieldType.time);
+    if (!seriesTimeField) {
+      return null;
+    }
+
+    return { field: resolved.field, times: this.processTimeValues(seriesTimeField) };
+  }
+
+  // 無効な時刻を除き、時刻の昇順に並べたインデックスを取得
+  // 降順（ORDER BY time DESC等）や無効な時刻を含むシリーズもあるため、二分探索の前に並べ替える
+  private getTimeOrder(times: number[], valueCount: number): number[] {
+    const order: number[] = [];
+    for (let i = 0; i < Math.min(times.length, valueCount); i++) {
+      if (isFinite(times[i])) {
+        order.push(i);
+      }
+    }
+    return order.sort((a, b) => times[a] - times[b]);
+  }
+
+  // 指定時刻以前の最後のサンプルのインデックスを二分探索（範囲より前の場合は-1）
+  private findSampleIndex(times: number[], time: number): number {
+    let low = 0;
+    let high = times.length - 1;
+    let result = -1;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (times[mid] <= time) {
+        result = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return result;
+  }
+
+  // フィールド参照に対応するフィールドを取得（表示設定の参照用、timeFieldを指定した場合はそのシリーズを優先）
+  getField(reference: string, timeField?: string): Field | null {
+    const boundTime = timeField ? this.resolveSeriesField(timeField) : null;
+    return this.resolveSeriesField(reference, boundTime?.series)?.field ?? null;
+  }
+
+  // フィールド参照（DataSourceName.FieldName等）からシリーズとフィールドを特定
+  // preferredSeriesを指定した場合、シリーズ名の無い参照はそのシリーズのフィールドを優先
+  private resolveSeriesField(reference: string, preferredSeries?: DataFrame): { series: DataFrame; field: Field } | null {
+    if (!this.data?.series) {
+      return null;
+    }
+
+    let targetSeriesName: string | null = null;
+    let targetFieldName = reference;
+
+    const bracketMatch = reference.match(/^\[([^\]]+)\]\{([^}]+)\}$/);
+    if (bracketMatch) {
+      targetSeriesName = bracketMatch[1];
+      targetFieldName = bracketMatch[2];
+    } else {
+      const dotMatch = reference.match(/^([^.]+)\.(.+)$/);
+      if (dotMatch) {
+        targetSeriesName = dotMatch[1];
+        targetFieldName = dotMatch[2];
+      }
+    }
+
+    if (targetSeriesName) {
+      for (const series of this.data.series) {
+        if (series.name === targetSeriesName || series.refId === targetSeriesName) {
+          const field = series.fields.find(f => f.name === targetFieldName);
+          if (field && field.values.length > 0) {
+            return { series, field };
+          }
+        }
+      }
+    }
+
+    if (preferredSeries) {
+      const field = preferredSeries.fields.find(f => f.name === targetFieldName);
+      if (field && field.values.length > 0) {
+        return { series: preferredSeries, field };
+      }
+    }
+
+    for (const series of this.data.series) {
+      const field = series.fields.find(f => f.name === targetFieldName);
+      if (field && field.values.length > 0) {
+        return { series, field };
+      }
+    }
+
+    return null;
+  }
+
+  private processTimeValues(timeField: Field): number[] {
+    return timeField.values.map((v: any) => {
+      if (typeof v === 'number') {
+        return v;
+      }
+      if (typeof v === 'string') {
+        const parsed = Date.parse(v);
+        return isNaN(parsed) ? NaN : parsed;
+      }
+      if (v && typeof v.valueOf === 'function') {
+        return Number(v.valueOf());
+      }
+      return NaN;
+    });
+  }
 }
 
 export class BoundsCalculator {
@@ -325,7 +636,7 @@ export class BoundsCalculator {
       }
 
       try {
-        if (shape.type === 'sphere' || shape.type === 'annotation' || shape.type === '3dmodel') {
+        if (shape.type === 'sphere' || shape.type === 'annotation' || shape.type === '3dmodel' || shape.type === 'vector' || shape.type === 'ellipsoid') {
           const posX = this.dataProcessor.getLastDataFieldValue(shape.posX, 0);
           const posY = this.dataProcessor.getLastDataFieldValue(shape.posY, 0);
           const posZ = this.dataProcessor.getLastDataFieldValue(shape.posZ, 0);
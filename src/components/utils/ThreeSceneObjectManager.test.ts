@@ -0,0 +1,79 @@
+import * as THREE from 'three';
+import { FieldType, LoadingState, PanelData, getDefaultTimeRange, toDataFrame } from '@grafana/data';
+import { DataField, ModelArticulation } from '../../types';
+import { DataFieldProcessor } from './ThreeSceneHelpers';
+import { ThreeSceneObjectManager } from './ThreeSceneObjectManager';
+
+// 8Hzの姿勢（Z軸回りに0°から90°）
+const createData = (): PanelData => ({
+  state: LoadingState.Done,
+  timeRange: getDefaultTimeRange(),
+  series: [
+    toDataFrame({
+      refId: 'A',
+      fields: [
+        { name: 'time', type: FieldType.time, values: [0, 125] },
+        { name: 'qx', type: FieldType.number, values: [0, 0] },
+        { name: 'qy', type: FieldType.number, values: [0, 0] },
+        { name: 'qz', type: FieldType.number, values: [0, 1] },
+      ],
+    }),
+  ],
+});
+
+const field = (value: string): DataField => ({ sourceType: 'field', value });
+const constant = (value: string): DataField => ({ sourceType: 'const', value });
+
+const createManager = () =>
+  new ThreeSceneObjectManager(new THREE.Scene(), new DataFieldProcessor(createData()), { current: new Map() });
+
+const expectHalfwayRotation = (quaternion: THREE.Quaternion | null) => {
+  const expected = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), Math.PI / 4);
+  expect(quaternion).not.toBeNull();
+  expect(quaternion!.clone().normalize().angleTo(expected)).toBeCloseTo(0);
+};
+
+describe('ThreeSceneObjectManager', () => {
+  it('slerps the attitude when only W is a constant', () => {
+    const shape = {
+      timeField: 'A.time',
+      interpolation: 'linear',
+      quatX: field('A.qx'),
+      quatY: field('A.qy'),
+      quatZ: field('A.qz'),
+      quatW: constant('1'),
+    };
+
+    expectHalfwayRotation(createManager()['getRawShapeQuaternion'](shape, 62.5));
+  });
+
+  it('holds the previous attitude when interpolation is off', () => {
+    const shape = {
+      timeField: 'A.time',
+      quatX: field('A.qx'),
+      quatY: field('A.qy'),
+      quatZ: field('A.qz'),
+      quatW: constant('1'),
+    };
+
+    const quaternion = createManager()['getRawShapeQuaternion'](shape, 62.5);
+    expect(quaternion!.angleTo(new THREE.Quaternion())).toBeCloseTo(0);
+  });
+
+  it('slerps quaternion-driven articulated parts when W is a constant', () => {
+    const shape = { timeField: 'A.time', interpolation: 'linear' };
+    const articulation: ModelArticulation = {
+      nodeName: 'SolarArray',
+      mode: 'quaternion',
+      axisX: 0,
+      axisY: 0,
+      axisZ: 1,
+      quatX: field('A.qx'),
+      quatY: field('A.qy'),
+      quatZ: field('A.qz'),
+      quatW: constant('1'),
+    };
+
+    expectHalfwayRotation(createManager()['getArticulationRotation'](shape, articulation, 62.5));
+  });
+});
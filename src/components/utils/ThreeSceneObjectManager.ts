@@ -1,17 +1,36 @@
 import * as THREE from 'three';
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
-import { Shape, ViewAngleScalingSettings } from '../../types';
+import { Field, GrafanaTheme2, createTheme } from '@grafana/data';
+import { ModelArticulation, PolylineLineStyle, Shape, SunLightSettings, ViewAngleScalingSettings } from '../../types';
 import { DataFieldProcessor } from './ThreeSceneHelpers';
 import { ViewAngleScaling } from './ViewAngleScaling';
+import { ModelLoader } from './ModelLoader';
+import { ModelCache, ModelLoadState } from './ModelCache';
+import { ColorLegend, FieldColorScale } from './FieldColorScale';
+import { Line2 } from 'three/examples/jsm/lines/Line2';
+import { LineGeometry } from 'three/examples/jsm/lines/LineGeometry';
+import { LineMaterial } from 'three/examples/jsm/lines/LineMaterial';
+import { TimeInterpolation } from './TimeInterpolation';
+import { CovarianceEllipsoid } from './CovarianceEllipsoid';
+import { BodyRotationSettings, ReferenceFrame, ReferenceFrameMode } from './ReferenceFrame';
 
 export class ThreeSceneObjectManager {
   private scene: THREE.Scene;
   private dataProcessor: DataFieldProcessor;
   private objectsRef: React.MutableRefObject<Map<string, THREE.Object3D>>;
-  private gltfLoader: GLTFLoader;
   private camera: THREE.Camera | null = null;
   private globalViewAngleSettings: ViewAngleScalingSettings;
   private loadingVersions: Map<string, number> = new Map(); // 非同期処理の競合状態を防ぐ
+  private modelLoadStates: Map<string, ModelLoadState> = new Map(); // 3Dモデルの読み込み中・失敗の状態
+  private originalMaterials: WeakMap<THREE.Mesh, THREE.Material | THREE.Material[]> = new WeakMap(); // 色・不透明度等を上書きする前のマテリアル
+  private trails: Map<string, THREE.Group> = new Map(); // オブジェクトIDごとの軌跡（objectsRefとは別に管理）
+  private frameMode: ReferenceFrameMode = 'inertial';
+  private frameCenter?: Shape; // LVLH・天体固定座標系の基準オブジェクト
+  private bodyRotation?: BodyRotationSettings;
+  private renderOrigin: THREE.Vector3 = new THREE.Vector3(); // 描画原点（浮動原点、基準座標系での位置）
+  private theme: GrafanaTheme2 = createTheme(); // フィールドの値による配色（色名の解決）に使用
+  private colorScales: WeakMap<Field, (value: number) => string> = new WeakMap(); // データ更新（フィールドの置き換え）まで再利用
+  private lineResolution: THREE.Vector2 = new THREE.Vector2(1, 1); // ポリラインの線幅（ピクセル）の計算に使う描画サイズ
+  private shadowIds: { receiverId?: string; casterId?: string } = {}; // 影を受ける・落とすオブジェクト（作成時に設定を反映）
 
   constructor(
     scene: THREE.Scene, 
@@ -22,7 +41,6 @@ export class ThreeSceneObjectManager {
     this.scene = scene;
     this.dataProcessor = dataProcessor;
     this.objectsRef = objectsRef;
-    this.gltfLoader = new GLTFLoader();
     this.globalViewAngleSettings = globalViewAngleSettings || {
       targetAngularSize: 0.05,
       minSize: 0.1,
@@ -35,6 +53,109 @@ export class ThreeSceneObjectManager {
     this.camera = camera;
   }
 
+  // シーンの基準座標系を設定
+  // LVLHの場合は基準オブジェクトの位置・速度、天体固定の場合は自転設定から座標軸を作成
+  setReferenceFrame(mode: ReferenceFrameMode, center?: Shape, bodyRotation?: BodyRotationSettings): void {
+    this.frameMode = mode;
+    this.frameCenter = center;
+    this.bodyRotation = bodyRotation;
+  }
+
+  // 描画原点を設定（以降に作成・更新される位置・頂点は描画原点からの相対座標になる）
+  setRenderOrigin(origin: THREE.Vector3): void {
+    this.renderOrigin.copy(origin);
+  }
+
+  // 慣性系の位置をシーンの基準座標系に変換し、描画原点からの相対座標にする
+  // float32の頂点・深度でも精度を保てるよう、倍精度のまま描画原点を差し引く
+  private toSceneFrame(position: THREE.Vector3, time?: number): THREE.Vector3 {
+    const frame = this.getSceneFrame(time);
+    if (frame) {
+      position.sub(frame.origin).applyQuaternion(frame.rotation);
+    }
+    return position.sub(this.renderOrigin);
+  }
+
+  // 慣性系からシーンの基準座標系への回転（慣性系の場合は単位クオータニオン）
+  private getSceneFrameRotation(time?: number): THREE.Quaternion {
+    return this.getSceneFrame(time)?.rotation.clone() || new THREE.Quaternion();
+  }
+
+  // 指定時刻における基準座標系の原点と回転を取得（慣性系または定義できない場合はnull）
+  private getSceneFrame(time?: number): { origin: THREE.Vector3; rotation: THREE.Quaternion } | null {
+    const center: any = this.frameCenter;
+    if (this.frameMode === 'inertial' || !center || !center.posX) {
+      return null;
+    }
+
+    const frameTime = time ?? this.dataProcessor.getEffectiveTime(center.timeField);
+    const origin = this.getRawShapePosition(center, frameTime);
+
+    if (this.frameMode === 'bodyFixed') {
+      const bodyAttitude = this.getBodyAttitude(center, frameTime);
+      return bodyAttitude ? { origin, rotation: bodyAttitude.invert() } : null;
+    }
+
+    const velocity = frameTime === undefined
+      ? new THREE.Vector3(
+        this.dataProcessor.getLastDataFieldValue(center.velX, 0),
+        this.dataProcessor.getLastDataFieldValue(center.velY, 0),
+        this.dataProcessor.getLastDataFieldValue(center.velZ, 0)
+      )
+      : new THREE.Vector3(
+        this.dataProcessor.getDataFieldValueAtTime(center.velX, frameTime, 0, 'linear', center.timeField),
+        this.dataProcessor.getDataFieldValueAtTime(center.velY, frameTime, 0, 'linear', center.timeField),
+        this.dataProcessor.getDataFieldValueAtTime(center.velZ, frameTime, 0, 'linear', center.timeField)
+      );
+
+    const lvlh = ReferenceFrame.lvlhQuaternion(origin, velocity);
+    if (!lvlh) {
+      return null;
+    }
+    return { origin, rotation: lvlh.invert() };
+  }
+
+  // 天体固定座標系から慣性系への回転を取得（自転モデルまたは基準オブジェクトのクオータニオン）
+  private getBodyAttitude(center: any, time: number | undefined): THREE.Quaternion | null {
+    const rotation = this.bodyRotation;
+    if (!rotation) {
+      return null;
+    }
+
+    if (rotation.source === 'quaternion') {
+      const quaternion = this.getRawShapeQuaternion(center, time);
+      return quaternion && quaternion.lengthSq() > 0 ? quaternion.normalize() : null;
+    }
+
+    // 時刻フィールドが無い場合はダッシュボードの現在時刻（時間範囲の終端まで）の自転角を使用
+    return ReferenceFrame.poleRotationQuaternion(rotation, time ?? this.dataProcessor.getDashboardNow());
+  }
+
+  // 配列の各要素に対応するサンプル時刻を取得（要素数が一致しない場合は空配列）
+  private getFrameSampleTimes(shape: any, fields: any[], count: number): number[] {
+    if (this.frameMode === 'inertial') {
+      return [];
+    }
+    const times = this.getSampleTimes(shape, fields);
+    return times.length === count ? times : [];
+  }
+
+  // 描画サイズを設定（ポリラインの線幅をピクセル単位にするため、作成済みの線にも反映）
+  setLineResolution(width: number, height: number): void {
+    this.lineResolution.set(width, height);
+    this.scene.traverse((child) => {
+      if (child instanceof Line2) {
+        child.material.resolution.set(width, height);
+      }
+    });
+  }
+
+  // Grafanaのテーマを設定（フィールドの値による配色に使用）
+  setTheme(theme: GrafanaTheme2): void {
+    this.theme = theme;
+    this.colorScales = new WeakMap();
+  }
+
   // グローバル視野角スケーリング設定を更新
   updateGlobalViewAngleSettings(settings: ViewAngleScalingSettings): void {
     this.globalViewAngleSettings = settings;
@@ -51,9 +172,7 @@ export class ThreeSceneObjectManager {
 
   // Create sphere object
   createSphere(shape: any): THREE.Mesh {
-    const posX = this.dataProcessor.getLastDataFieldValue(shape.posX, 0);
-    const posY = this.dataProcessor.getLastDataFieldValue(shape.posY, 0);
-    const posZ = this.dataProcessor.getLastDataFieldValue(shape.posZ, 0);
+    const position = this.getShapePosition(shape);
 
     let radius = 1; // デフォルト値
     if (shape.autoRadius === 'off' && shape.radius !== undefined) {
@@ -61,10 +180,10 @@ export class ThreeSceneObjectManager {
     }
 
     const geometry = new THREE.SphereGeometry(radius, 32, 32);
-    const material = new THREE.MeshLambertMaterial({ color: shape.color || '#ff0000' });
+    const material = new THREE.MeshLambertMaterial({ color: this.getShapeColor(shape, shape.color || '#ff0000') });
     const mesh = new THREE.Mesh(geometry, material);
     
-    mesh.position.set(posX, posY, posZ);
+    mesh.position.copy(position);
     mesh.name = shape.name;
     
     // Auto Radiusの場合、自動的にView Angleスケーリングを有効にする
@@ -90,44 +209,850 @@ export class ThreeSceneObjectManager {
   }
 
   // Create polyline object
-  createPolyline(shape: any): THREE.Line {
-    const pointsX = this.dataProcessor.getDataFieldValue(shape.pointsX, 0);
-    const pointsY = this.dataProcessor.getDataFieldValue(shape.pointsY, 0);
-    const pointsZ = this.dataProcessor.getDataFieldValue(shape.pointsZ, 0);
+  createPolyline(shape: any): THREE.Object3D {
+    const pointsX = this.getAlignedValues(shape, shape.pointsX);
+    const pointsY = this.getAlignedValues(shape, shape.pointsY);
+    const pointsZ = this.getAlignedValues(shape, shape.pointsZ);
 
     const points: THREE.Vector3[] = [];
     const minLength = Math.min(pointsX.length, pointsY.length, pointsZ.length);
 
+    // 基準座標系が時間変化する場合は各点をその点の時刻の座標系に変換
+    const pointTimes = this.getFrameSampleTimes(shape, [shape.pointsX, shape.pointsY, shape.pointsZ], minLength);
     for (let i = 0; i < minLength; i++) {
-      points.push(new THREE.Vector3(pointsX[i], pointsY[i], pointsZ[i]));
+      points.push(this.toSceneFrame(new THREE.Vector3(pointsX[i], pointsY[i], pointsZ[i]), pointTimes[i]));
     }
 
+    // フィールドの値で色を決める場合は頂点ごとの色（グラデーション）
+    const colors = this.getPolylineColors(shape, points.length);
+
     // Close path if requested
     if (shape.closePath === 'on' && points.length > 0) {
       points.push(points[0].clone());
+      colors?.push(colors[0].clone());
     }
 
-    let geometry: THREE.BufferGeometry;
-    
+    // 分割時刻以前を過去（実線）、以降を未来（破線または別色）として描画
+    // 過去・未来それぞれ全体の線を作成しておき、描画するセグメント数で分割位置を移動する
+    if ((shape.futureSplit || 'off') !== 'off' && points.length > 1) {
+      const group = new THREE.Group();
+      const pastLine = this.createPolylineLine(points, shape, false, colors);
+      // 未来側は末尾から描画するため逆順の点列で作成
+      const futureLine = this.createPolylineLine([...points].reverse(), shape, true, colors ? [...colors].reverse() : null);
+      pastLine.name = 'polylinePast';
+      futureLine.name = 'polylineFuture';
+      group.add(pastLine, futureLine);
+
+      group.name = shape.name;
+      group.userData = { shapeId: shape.id, shapeType: shape.type, pointCount: minLength };
+      this.updatePolylineSplit(group, shape);
+      return group;
+    }
+
+    const line = this.createPolylineLine(points, shape, false, colors);
+    line.name = shape.name;
+    line.userData = { shapeId: shape.id, shapeType: shape.type };
+
+    return line;
+  }
+
+  private createPolylineLine(points: THREE.Vector3[], shape: any, isFuture: boolean, colors?: THREE.Color[] | null): Line2 {
+    const futureDashed = isFuture && (shape.futureStyle || 'dashed') === 'dashed';
+    const lineStyle: PolylineLineStyle = futureDashed ? 'dashed' : shape.lineStyle || 'solid';
+    // 未来側を別色で描画する場合はグラデーションを使わない
+    const useColors = !!colors && colors.length === points.length && !(isFuture && shape.futureStyle === 'color');
+
+    // スムーズ曲線も折れ線と同じ線として描画（曲線上の点を等間隔のパラメータで取得）
+    // 元の点の間の分割数を揃え、元の点のインデックスからセグメントの位置を求められるようにする
+    let linePoints = points;
+    let lineColors = useColors ? colors! : [];
+    let divisions = 1;
     if (shape.smoothCurve === 'on' && points.length > 2) {
-      // Create smooth curve
       const curve = new THREE.CatmullRomCurve3(points);
-      geometry = new THREE.TubeGeometry(curve, Math.max(points.length * 2, 64), shape.strokeSize || 0.1, 8, false);
+      divisions = Math.max(2, Math.ceil(64 / (points.length - 1)));
+      const segments = (points.length - 1) * divisions;
+      linePoints = curve.getPoints(segments);
+      if (useColors) {
+        lineColors = linePoints.map((_, i) => this.interpolateColor(colors!, i / segments));
+      }
+    }
+
+    const geometry = new LineGeometry();
+    if (linePoints.length > 1) {
+      geometry.setPositions(linePoints.flatMap(point => point.toArray()));
+      if (useColors) {
+        geometry.setColors(lineColors.flatMap(color => color.toArray()));
+      }
+    }
+
+    const material = new LineMaterial({
+      color: useColors
+        ? 0xffffff
+        : new THREE.Color(isFuture ? shape.futureColor || (futureDashed ? shape.strokeColor : '#888888') || '#ffffff' : shape.strokeColor || '#ffffff').getHex(),
+      vertexColors: useColors,
+      // 画面上のピクセル幅（1未満は細すぎて見えなくなるため1に制限）
+      linewidth: Math.max(shape.strokeSize || 1, 1),
+      worldUnits: false,
+      dashed: lineStyle !== 'solid'
+    });
+    material.resolution.copy(this.lineResolution);
+
+    const line = new Line2(geometry, material);
+    if (lineStyle !== 'solid' && linePoints.length > 1) {
+      // 破線の間隔は経路長に合わせる（シーンの単位系に依存しないように）
+      geometry.computeBoundingSphere();
+      const unit = Math.max((geometry.boundingSphere?.radius || 1) / 50, 1e-6);
+      material.dashSize = lineStyle === 'dotted' ? unit * 0.2 : unit;
+      material.gapSize = lineStyle === 'dotted' ? unit * 0.4 : unit;
+      line.computeLineDistances();
+    }
+    line.userData = { divisions, segmentCount: Math.max(0, linePoints.length - 1) };
+    return line;
+  }
+
+  // 分割時刻に合わせて過去・未来の線の描画範囲を更新（シーン時刻の変更時も線は作り直さない）
+  private updatePolylineSplit(group: THREE.Object3D, shape: any): void {
+    const pastLine = group.getObjectByName('polylinePast') as Line2 | undefined;
+    const futureLine = group.getObjectByName('polylineFuture') as Line2 | undefined;
+    if (!pastLine || !futureLine) {
+      return;
+    }
+
+    const segmentCount = pastLine.userData.segmentCount as number;
+    const splitIndex = this.getPolylineSplitIndex(shape, group.userData.pointCount);
+    // 全て過去の場合は分割せず通常のポリラインとして描画
+    const pastSegments = splitIndex === null
+      ? segmentCount
+      : Math.min(segmentCount, Math.max(0, splitIndex) * pastLine.userData.divisions);
+
+    pastLine.geometry.instanceCount = pastSegments;
+    pastLine.visible = pastSegments > 0;
+    futureLine.geometry.instanceCount = segmentCount - pastSegments;
+    futureLine.visible = segmentCount - pastSegments > 0;
+  }
+
+  // ポリラインの各点の色を取得（フィールドの値で色を決めない場合、または点の数と一致しない場合はnull）
+  private getPolylineColors(shape: any, pointCount: number): THREE.Color[] | null {
+    const toColor = this.getColorScale(shape);
+    if (!toColor || pointCount === 0) {
+      return null;
+    }
+
+    const values = this.getAlignedValues(shape, { sourceType: 'field', value: shape.colorField });
+    if (values.length < pointCount) {
+      return null;
+    }
+    return values.slice(0, pointCount).map(value => new THREE.Color(isFinite(value) ? toColor(value) : shape.strokeColor || '#ffffff'));
+  }
+
+  // 点列のパラメータt（0〜1）の位置の色を前後の点の色から線形補間
+  private interpolateColor(colors: THREE.Color[], t: number): THREE.Color {
+    const position = Math.min(Math.max(t, 0), 1) * (colors.length - 1);
+    const index = Math.min(Math.floor(position), colors.length - 2);
+    return colors[index].clone().lerp(colors[index + 1], position - index);
+  }
+
+  // 分割時刻以前の最後の点のインデックスを取得（分割しない場合はnull）
+  private getPolylineSplitIndex(shape: any, pointCount: number): number | null {
+    const mode = shape.futureSplit || 'off';
+    if (mode === 'off' || pointCount < 2) {
+      return null;
+    }
+
+    const times = this.getSampleTimes(shape, [shape.pointsX, shape.pointsY, shape.pointsZ]);
+    if (times.length < pointCount) {
+      return null;
+    }
+
+    const now = this.dataProcessor.getDashboardNow();
+    const splitTime = mode === 'sceneTime' ? (this.dataProcessor.getSceneTime() ?? now) : now;
+    let index = -1;
+    for (let i = 0; i < pointCount; i++) {
+      if (times[i] <= splitTime) {
+        index = i;
+      }
+    }
+
+    // 全て過去の場合は分割せず通常のポリラインとして描画
+    return index >= pointCount - 1 ? null : index;
+  }
+
+  // Create vector (arrow) object
+  createVector(shape: any): THREE.Group {
+    const group = new THREE.Group();
+    group.name = shape.name;
+    group.userData = { shapeId: shape.id, shapeType: shape.type };
+
+    const arrow = new THREE.ArrowHelper(new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 0, 0), 1, shape.color || '#ffff00');
+    arrow.name = 'vectorArrow';
+    group.add(arrow);
+
+    this.updateVector(group, shape);
+    return group;
+  }
+
+  // 矢印の始点・向き・長さとラベルを更新
+  private updateVector(group: THREE.Group, shape: any): void {
+    const arrow = group.getObjectByName('vectorArrow') as THREE.ArrowHelper | undefined;
+    if (!arrow) {
+      return;
+    }
+
+    group.position.copy(this.getShapePosition(shape));
+
+    const vector = this.getShapeVector(shape);
+    const magnitude = vector.length();
+    const length = magnitude * (shape.lengthScale ?? 1);
+    arrow.visible = magnitude > 0 && isFinite(length) && length > 0;
+    if (arrow.visible) {
+      arrow.setDirection(vector.clone().normalize());
+      // 矢じりの大きさは矢印の長さに比例
+      arrow.setLength(length, length * 0.2, length * 0.1);
+    }
+    arrow.setColor(shape.color || '#ffff00');
+
+    // 大きさのラベル（スプライトは1回だけ作成し、表示桁数でのテキストか色が変わった場合のみ描き直す）
+    let label = group.getObjectByName('vectorLabel') as THREE.Sprite | undefined;
+    if (shape.showLabel === 'on' && arrow.visible) {
+      if (!label) {
+        label = this.createVectorLabel();
+        group.add(label);
+      }
+      const labelText = `${this.formatMagnitude(magnitude)}${shape.labelUnit ? ` ${shape.labelUnit}` : ''}`;
+      this.drawVectorLabel(label, labelText, shape.color || '#ffff00');
+      label.position.copy(vector.clone().normalize().multiplyScalar(length));
+      label.visible = true;
+    } else if (label) {
+      label.visible = false;
+    }
+  }
+
+  // シーン時刻におけるベクトル成分を取得（始点と同じ時刻に揃える）
+  private getShapeVector(shape: any): THREE.Vector3 {
+    const rotation = this.getSceneFrameRotation(this.dataProcessor.getEffectiveTime(shape.timeField));
+    return new THREE.Vector3(
+      this.getShapeValue(shape, shape.vX),
+      this.getShapeValue(shape, shape.vY),
+      this.getShapeValue(shape, shape.vZ)
+    ).applyQuaternion(rotation);
+  }
+
+  // シーン時刻における値を取得（オブジェクトの時刻フィールドと結合方法に従う）
+  private getShapeValue(shape: any, field: any, defaultValue = 0): number {
+    const timeField = shape.timeField;
+    const time = this.dataProcessor.getEffectiveTime(timeField);
+    if (time === undefined) {
+      return this.dataProcessor.getLastDataFieldValue(field, defaultValue);
+    }
+    return this.dataProcessor.getDataFieldValueAtTime(field, time, defaultValue, shape.timeJoin || 'previous', timeField);
+  }
+
+  // 有効数字3桁で表示（補間中の細かな変化でラベルを描き直さないため）
+  private formatMagnitude(value: number): string {
+    const abs = Math.abs(value);
+    if (abs !== 0 && (abs < 0.01 || abs >= 1e5)) {
+      return value.toExponential(2);
+    }
+    return value.toFixed(abs === 0 ? 2 : Math.max(0, 2 - Math.floor(Math.log10(abs))));
+  }
+
+  // 画面上で一定サイズになるラベル用スプライトを作成（テキストはdrawVectorLabelで描画）
+  private createVectorLabel(): THREE.Sprite {
+    const canvas = document.createElement('canvas');
+    canvas.width = 256;
+    canvas.height = 64;
+
+    const material = new THREE.SpriteMaterial({
+      map: new THREE.CanvasTexture(canvas),
+      transparent: true,
+      depthTest: false,
+      depthWrite: false,
+      sizeAttenuation: false
+    });
+    const sprite = new THREE.Sprite(material);
+    sprite.name = 'vectorLabel';
+    sprite.scale.set(0.16, 0.04, 1);
+    sprite.center.set(0, 0);
+    sprite.renderOrder = 999;
+    return sprite;
+  }
+
+  // ラベルのキャンバスにテキストを描き直す（前回と同じテキスト・色の場合は何もしない）
+  private drawVectorLabel(sprite: THREE.Sprite, text: string, color: string): void {
+    if (sprite.userData.text === text && sprite.userData.color === color) {
+      return;
+    }
+    sprite.userData.text = text;
+    sprite.userData.color = color;
+
+    const texture = sprite.material.map as THREE.CanvasTexture;
+    const canvas = texture.image as HTMLCanvasElement;
+    const context = canvas.getContext('2d')!;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.font = '28px Arial';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.lineWidth = 4;
+    context.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+    context.strokeText(text, canvas.width / 2, canvas.height / 2);
+    context.fillStyle = color;
+    context.fillText(text, canvas.width / 2, canvas.height / 2);
+    texture.needsUpdate = true;
+  }
+
+  // Create uncertainty ellipsoid object
+  createEllipsoid(shape: any): THREE.Mesh {
+    const geometry = new THREE.SphereGeometry(1, 32, 16);
+    const material = new THREE.MeshPhongMaterial({
+      color: shape.color || '#00aaff',
+      transparent: true,
+      opacity: shape.opacity ?? 0.3,
+      depthWrite: false,
+      side: THREE.DoubleSide
+    });
+
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.name = shape.name;
+    mesh.userData = { shapeId: shape.id, shapeType: shape.type };
+
+    this.updateEllipsoid(mesh, shape);
+    return mesh;
+  }
+
+  // 楕円体の中心・半軸・向きを更新（単位球をスケール・回転して表現）
+  private updateEllipsoid(mesh: THREE.Mesh, shape: any): void {
+    mesh.position.copy(this.getShapePosition(shape));
+
+    let radii: THREE.Vector3;
+    let quaternion: THREE.Quaternion;
+    if ((shape.source || 'covariance') === 'covariance') {
+      const axes = CovarianceEllipsoid.fromCovariance({
+        xx: this.getShapeValue(shape, shape.covXX),
+        yy: this.getShapeValue(shape, shape.covYY),
+        zz: this.getShapeValue(shape, shape.covZZ),
+        xy: this.getShapeValue(shape, shape.covXY),
+        xz: this.getShapeValue(shape, shape.covXZ),
+        yz: this.getShapeValue(shape, shape.covYZ)
+      });
+      radii = axes.radii;
+      quaternion = this.getSceneFrameRotation(this.dataProcessor.getEffectiveTime(shape.timeField)).multiply(axes.quaternion);
     } else {
-      // Create simple line
-      geometry = new THREE.BufferGeometry().setFromPoints(points);
+      radii = new THREE.Vector3(
+        Math.abs(this.getShapeValue(shape, shape.sigmaX)),
+        Math.abs(this.getShapeValue(shape, shape.sigmaY)),
+        Math.abs(this.getShapeValue(shape, shape.sigmaZ))
+      );
+      quaternion = this.getShapeQuaternion(shape) || new THREE.Quaternion();
+      if (quaternion.lengthSq() > 0) {
+        quaternion.normalize();
+      } else {
+        quaternion.identity();
+      }
+    }
+
+    // スケール0の行列は逆行列が計算できないため最小値を設ける
+    const sigmaLevel = shape.sigmaLevel || 1;
+    mesh.scale.set(
+      Math.max(radii.x * sigmaLevel, 1e-9),
+      Math.max(radii.y * sigmaLevel, 1e-9),
+      Math.max(radii.z * sigmaLevel, 1e-9)
+    );
+    mesh.quaternion.copy(quaternion);
+
+    if (mesh.material instanceof THREE.MeshPhongMaterial) {
+      mesh.material.color.set(shape.color || '#00aaff');
+      mesh.material.opacity = shape.opacity ?? 0.3;
     }
+  }
+
+  // Create sensor field-of-view object (cone or pyramid along the body-frame boresight)
+  createSensorFov(shape: any): THREE.Group {
+    const range = Math.max(shape.range || 0, 1e-6);
+    let geometry: THREE.BufferGeometry;
+
+    if (shape.fovShape === 'rectangular') {
+      // 頂点を原点、底面を+Z方向range位置とする四角錐
+      const halfX = range * Math.tan(THREE.MathUtils.degToRad(Math.min(shape.halfAngleX ?? 10, 89)));
+      const halfY = range * Math.tan(THREE.MathUtils.degToRad(Math.min(shape.halfAngleY ?? 10, 89)));
+      geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.Float32BufferAttribute([
+        0, 0, 0,
+        -halfX, -halfY, range,
+        halfX, -halfY, range,
+        halfX, halfY, range,
+        -halfX, halfY, range
+      ], 3));
+      geometry.setIndex([0, 1, 2, 0, 2, 3, 0, 3, 4, 0, 4, 1, 1, 3, 2, 1, 4, 3]);
+      geometry.computeVertexNormals();
+    } else {
+      // ConeGeometryは+Y方向が頂点のため、頂点を原点に移して+Z方向へ向ける
+      const radius = range * Math.tan(THREE.MathUtils.degToRad(Math.min(shape.halfAngle ?? 10, 89)));
+      geometry = new THREE.ConeGeometry(radius, range, 48, 1, false);
+      geometry.translate(0, -range / 2, 0);
+      geometry.rotateX(-Math.PI / 2);
+    }
+
+    const color = shape.color || '#ffaa00';
+    const mesh = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({
+      color,
+      transparent: true,
+      opacity: shape.opacity ?? 0.2,
+      depthWrite: false,
+      side: THREE.DoubleSide
+    }));
+    const edges = new THREE.LineSegments(
+      new THREE.EdgesGeometry(geometry, 20),
+      new THREE.LineBasicMaterial({ color })
+    );
+
+    // 機体座標系の+Zを視軸に合わせる
+    const fov = new THREE.Group();
+    fov.add(mesh, edges);
+    const boresight = new THREE.Vector3(shape.boresightX ?? 0, shape.boresightY ?? 0, shape.boresightZ ?? 1);
+    if (boresight.lengthSq() > 0) {
+      fov.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), boresight.normalize());
+    }
+
+    const group = new THREE.Group();
+    group.add(fov);
+    group.name = shape.name;
+    group.userData = { shapeId: shape.id, shapeType: shape.type, parentId: shape.parentId, geometryKey: this.getSensorFovGeometryKey(shape) };
+    group.visible = false; // 親オブジェクトの位置が分かるまで非表示
+
+    return group;
+  }
+
+  // 視野の形状を決める設定値（変わった場合のみ作り直す）
+  private getSensorFovGeometryKey(shape: any): string {
+    return JSON.stringify([
+      shape.fovShape, shape.halfAngle, shape.halfAngleX, shape.halfAngleY, shape.range,
+      shape.boresightX, shape.boresightY, shape.boresightZ
+    ]);
+  }
 
-    const material = new THREE.LineBasicMaterial({ 
-      color: shape.strokeColor || '#ffffff',
-      linewidth: shape.strokeSize || 1
+  // 視野の名前・親・色・不透明度を更新（形状はそのまま）
+  private updateSensorFov(group: THREE.Group, shape: any): void {
+    const color = shape.color || '#ffaa00';
+    group.name = shape.name;
+    group.userData.parentId = shape.parentId;
+    group.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        (child.material as THREE.MeshBasicMaterial).color.set(color);
+        (child.material as THREE.MeshBasicMaterial).opacity = shape.opacity ?? 0.2;
+      } else if (child instanceof THREE.LineSegments) {
+        (child.material as THREE.LineBasicMaterial).color.set(color);
+      }
     });
+  }
 
-    const line = new THREE.Line(geometry, material);
-    line.name = shape.name;
-    line.userData = { shapeId: shape.id, shapeType: shape.type };
+  // 親オブジェクトに取り付けたオブジェクト（センサ視野等）を親の位置・姿勢に追従させる
+  // 親のスケール（視野角スケーリング）は引き継がない
+  updateAttachments(): void {
+    this.objectsRef.current.forEach((object) => {
+      const parentId = object.userData.parentId;
+      if (!parentId) {
+        return;
+      }
 
-    return line;
+      const parent = this.objectsRef.current.get(parentId);
+      object.visible = !!parent;
+      if (parent) {
+        object.position.copy(parent.position);
+        object.quaternion.copy(parent.quaternion);
+      }
+    });
+  }
+
+  // Create safety zone object (keep-out sphere or approach corridor cone around the target)
+  createSafetyZone(shape: any): THREE.Group {
+    let geometry: THREE.BufferGeometry;
+    const zoneGroup = new THREE.Group();
+
+    if (shape.zoneType === 'corridor') {
+      // 頂点をターゲット位置とし、回廊の軸方向に開く円錐
+      const length = Math.max(shape.corridorLength || 0, 1e-6);
+      const radius = length * Math.tan(THREE.MathUtils.degToRad(Math.min(shape.corridorHalfAngle ?? 10, 89)));
+      geometry = new THREE.ConeGeometry(radius, length, 48, 1, true);
+      geometry.translate(0, -length / 2, 0);
+      geometry.rotateX(-Math.PI / 2);
+
+      const axis = this.getCorridorAxis(shape);
+      zoneGroup.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), axis);
+    } else {
+      geometry = new THREE.SphereGeometry(Math.max(shape.radius || 0, 1e-6), 48, 24);
+    }
+
+    const color = shape.color || '#00ff88';
+    const mesh = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({
+      color,
+      transparent: true,
+      opacity: shape.opacity ?? 0.15,
+      depthWrite: false,
+      side: THREE.DoubleSide
+    }));
+    const wireframe = new THREE.LineSegments(
+      new THREE.WireframeGeometry(geometry),
+      new THREE.LineBasicMaterial({ color, transparent: true, opacity: 0.4 })
+    );
+    zoneGroup.add(mesh, wireframe);
+
+    // ターゲットの位置・姿勢にはupdateAttachmentsで追従
+    const group = new THREE.Group();
+    group.add(zoneGroup);
+    group.name = shape.name;
+    group.userData = {
+      shapeId: shape.id,
+      shapeType: shape.type,
+      parentId: shape.targetId,
+      geometryKey: this.getSafetyZoneGeometryKey(shape),
+      safetyZone: {
+        ...this.getSafetyZoneSettings(shape),
+        violated: false
+      }
+    };
+    group.visible = false;
+
+    return group;
+  }
+
+  // ゾーンの形状を決める設定値（変わった場合のみ作り直す）
+  private getSafetyZoneGeometryKey(shape: any): string {
+    return JSON.stringify([
+      shape.zoneType || 'keepOut', shape.radius, shape.corridorLength, shape.corridorHalfAngle,
+      shape.corridorAxisX, shape.corridorAxisY, shape.corridorAxisZ
+    ]);
+  }
+
+  // ゾーンの判定・表示の設定値（角度はラジアン）
+  private getSafetyZoneSettings(shape: any) {
+    return {
+      name: shape.name,
+      zoneType: shape.zoneType || 'keepOut',
+      chaserId: shape.chaserId,
+      radius: shape.radius || 0,
+      axis: this.getCorridorAxis(shape),
+      halfAngle: THREE.MathUtils.degToRad(shape.corridorHalfAngle ?? 10),
+      length: shape.corridorLength || 0,
+      color: shape.color || '#00ff88',
+      violationColor: shape.violationColor || '#ff0000'
+    };
+  }
+
+  // ゾーンの名前・対象・色を更新（形状はそのまま、違反中の場合は違反色を維持）
+  private updateSafetyZone(group: THREE.Group, shape: any): void {
+    const zone = group.userData.safetyZone;
+    Object.assign(zone, this.getSafetyZoneSettings(shape));
+    group.name = shape.name;
+    group.userData.parentId = shape.targetId;
+    group.traverse((child) => {
+      if ((child instanceof THREE.Mesh || child instanceof THREE.LineSegments) && !Array.isArray(child.material)) {
+        (child.material as THREE.MeshBasicMaterial).color.set(zone.violated ? zone.violationColor : zone.color);
+      }
+      if (child instanceof THREE.Mesh) {
+        (child.material as THREE.MeshBasicMaterial).opacity = shape.opacity ?? 0.15;
+      }
+    });
+  }
+
+  private getCorridorAxis(shape: any): THREE.Vector3 {
+    const axis = new THREE.Vector3(shape.corridorAxisX ?? 0, shape.corridorAxisY ?? 0, shape.corridorAxisZ ?? 1);
+    return axis.lengthSq() > 0 ? axis.normalize() : new THREE.Vector3(0, 0, 1);
+  }
+
+  // チェイサーの現在位置で安全ゾーンの違反を判定し、違反中のゾーンを色で強調
+  // 違反中のゾーンの説明を返す（オーバーレイ表示用）
+  updateSafetyZones(): string[] {
+    const violations: string[] = [];
+
+    this.objectsRef.current.forEach((object) => {
+      const zone = object.userData.safetyZone;
+      if (!zone) {
+        return;
+      }
+
+      const chaser = this.objectsRef.current.get(zone.chaserId);
+      let violated = false;
+      if (chaser && object.visible) {
+        const relative = chaser.position.clone().sub(object.position);
+        const distance = relative.length();
+        if (zone.zoneType === 'corridor') {
+          // 回廊の長さ以内で円錐の外側にいる場合を違反とする
+          const axis = zone.axis.clone().applyQuaternion(object.quaternion);
+          violated = distance > 0 && distance <= zone.length && relative.angleTo(axis) > zone.halfAngle;
+        } else {
+          violated = distance < zone.radius;
+        }
+      }
+
+      if (violated !== zone.violated) {
+        zone.violated = violated;
+        object.traverse((child) => {
+          if ((child instanceof THREE.Mesh || child instanceof THREE.LineSegments) && !Array.isArray(child.material)) {
+            (child.material as THREE.MeshBasicMaterial).color.set(violated ? zone.violationColor : zone.color);
+          }
+        });
+      }
+
+      if (violated) {
+        const chaserName = chaser?.name || zone.chaserId;
+        violations.push(zone.zoneType === 'corridor'
+          ? `${chaserName} outside corridor ${zone.name}`
+          : `${chaserName} inside keep-out ${zone.name}`);
+      }
+    });
+
+    return violations;
+  }
+
+  // Create eclipse (umbra / penumbra) cone object
+  // 円錐は天体の半径が決まった時点でupdateEclipseConesが作成し、太陽方向に合わせて配置する
+  createEclipseCone(shape: any): THREE.Group {
+    const group = new THREE.Group();
+    group.name = shape.name;
+    group.userData = {
+      shapeId: shape.id,
+      shapeType: shape.type,
+      eclipseCone: {
+        ...this.getEclipseConeSettings(shape),
+        builtRadius: 0,
+        umbraLength: 0
+      }
+    };
+    group.visible = false;
+
+    return group;
+  }
+
+  // 食の円錐の設定を更新（形状が変わる場合のみ次のupdateEclipseConesで作り直し、色・不透明度はそのまま反映）
+  private updateEclipseCone(group: THREE.Group, shape: any): void {
+    const cone = group.userData.eclipseCone;
+    const settings = this.getEclipseConeSettings(shape);
+    if (settings.sunAngularRadius !== cone.sunAngularRadius || settings.coneLength !== cone.coneLength) {
+      cone.builtRadius = 0;
+    }
+    Object.assign(cone, settings);
+    // 球の半径の変更等は同じオブジェクトのままジオメトリが変わるため、天体の半径も計算し直す
+    cone.radiusBodyUuid = undefined;
+    group.name = shape.name;
+
+    const [umbra, penumbra] = group.children as THREE.Mesh[];
+    if (umbra && penumbra) {
+      const umbraMaterial = umbra.material as THREE.MeshBasicMaterial;
+      const penumbraMaterial = penumbra.material as THREE.MeshBasicMaterial;
+      umbraMaterial.color.set(cone.umbraColor);
+      umbraMaterial.opacity = cone.opacity;
+      penumbraMaterial.color.set(cone.penumbraColor);
+      penumbraMaterial.opacity = cone.opacity * 0.5;
+    }
+  }
+
+  // 食の円錐の設定値（角度はラジアン）
+  private getEclipseConeSettings(shape: any) {
+    return {
+      bodyId: shape.bodyId,
+      chaserId: shape.chaserId,
+      bodyRadius: shape.bodyRadius || 0,
+      sunAngularRadius: Math.max(THREE.MathUtils.degToRad(shape.sunAngularRadius ?? 0.267), 1e-6),
+      coneLength: shape.coneLength || 0,
+      umbraColor: shape.umbraColor || '#4040ff',
+      penumbraColor: shape.penumbraColor || '#8080ff',
+      opacity: shape.opacity ?? 0.2
+    };
+  }
+
+  // 天体の半径を基に本影（頂点に収束する円錐）と半影（広がる円錐台）を作成（ローカル+Z方向が太陽と反対側）
+  private buildEclipseCone(group: THREE.Group, cone: any, radius: number): void {
+    [...group.children].forEach((child) => {
+      group.remove(child);
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    });
+
+    const umbraLength = radius / Math.sin(cone.sunAngularRadius);
+    const length = cone.coneLength > 0 ? cone.coneLength : umbraLength;
+
+    const umbraGeometry = new THREE.ConeGeometry(radius, umbraLength, 48, 1, true);
+    umbraGeometry.rotateX(Math.PI / 2);
+    umbraGeometry.translate(0, 0, umbraLength / 2);
+
+    const penumbraGeometry = new THREE.CylinderGeometry(radius + length * Math.tan(cone.sunAngularRadius), radius, length, 48, 1, true);
+    penumbraGeometry.rotateX(Math.PI / 2);
+    penumbraGeometry.translate(0, 0, length / 2);
+
+    const createMaterial = (color: string, opacity: number) => new THREE.MeshBasicMaterial({
+      color,
+      transparent: true,
+      opacity,
+      depthWrite: false,
+      side: THREE.DoubleSide
+    });
+    group.add(new THREE.Mesh(umbraGeometry, createMaterial(cone.umbraColor, cone.opacity)));
+    group.add(new THREE.Mesh(penumbraGeometry, createMaterial(cone.penumbraColor, cone.opacity * 0.5)));
+
+    cone.builtRadius = radius;
+    cone.umbraLength = umbraLength;
+  }
+
+  // 天体の半径（球の半径またはモデルの外接球半径。表示用の自動スケールは除く）
+  // 天体の座標系での半径は天体オブジェクトごとに1回だけ計算し、スケールは毎回反映
+  private getBodyRadius(body: THREE.Object3D, cone: any): number {
+    if (cone.radiusBodyUuid !== body.uuid) {
+      body.updateMatrixWorld(true);
+      const inverse = body.matrixWorld.clone().invert();
+      const matrix = new THREE.Matrix4();
+      const sphere = new THREE.Sphere();
+      let radius = 0;
+      body.traverse((child) => {
+        if (child instanceof THREE.Mesh) {
+          if (!child.geometry.boundingSphere) {
+            child.geometry.computeBoundingSphere();
+          }
+          sphere.copy(child.geometry.boundingSphere!).applyMatrix4(matrix.multiplyMatrices(inverse, child.matrixWorld));
+          radius = Math.max(radius, sphere.center.length() + sphere.radius);
+        }
+      });
+      cone.localRadius = radius;
+      cone.radiusBodyUuid = body.uuid;
+    }
+
+    // Auto Radius・Auto Scaleの場合は単位スケールのみ適用
+    const scale = body.userData.viewAngleConfig?.enabled ? (body.userData.unitScale ?? 1) : body.scale.x;
+    return cone.localRadius * scale;
+  }
+
+  // 天体から太陽と反対方向に食の円錐を配置し、チェイサーが本影・半影の中にいる場合の説明を返す（オーバーレイ表示用）
+  updateEclipseCones(lightDirection: THREE.Vector3, sunLight?: SunLightSettings): string[] {
+    const alerts: string[] = [];
+
+    this.objectsRef.current.forEach((object) => {
+      const cone = object.userData.eclipseCone;
+      if (!cone) {
+        return;
+      }
+
+      const body = this.objectsRef.current.get(cone.bodyId);
+      const radius = body ? (cone.bodyRadius > 0 ? cone.bodyRadius : this.getBodyRadius(body, cone)) : 0;
+      object.visible = !!body && radius > 0 && isFinite(radius);
+      if (!body || !object.visible) {
+        return;
+      }
+
+      if (Math.abs(radius - cone.builtRadius) > radius * 1e-6) {
+        this.buildEclipseCone(object as THREE.Group, cone, radius);
+      }
+
+      // Sun Positionの場合は天体から見た太陽方向を使用
+      const sunDirection = this.getSunDirection(sunLight, cone.bodyId) || lightDirection;
+      const axis = sunDirection.clone().negate().normalize();
+      object.position.copy(body.position);
+      object.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), axis);
+
+      const chaser = this.objectsRef.current.get(cone.chaserId);
+      if (!chaser) {
+        return;
+      }
+
+      // 影の軸方向の距離と軸からの距離で判定
+      const relative = chaser.position.clone().sub(body.position);
+      const along = relative.dot(axis);
+      const offAxis = relative.addScaledVector(axis, -along).length();
+      const chaserName = chaser.name || cone.chaserId;
+      if (along > 0 && along < cone.umbraLength && offAxis < radius * (1 - along / cone.umbraLength)) {
+        alerts.push(`${chaserName} in umbra of ${body.name || cone.bodyId}`);
+      } else if (along > 0 && offAxis < radius + along * Math.tan(cone.sunAngularRadius)) {
+        alerts.push(`${chaserName} in penumbra of ${body.name || cone.bodyId}`);
+      }
+    });
+
+    return alerts;
+  }
+
+  // シーン時刻における太陽方向を取得（シーンの基準座標系、ターゲットから太陽へ向かう単位ベクトル）
+  // 固定光源の場合、または方向が定義できない場合はnull
+  getSunDirection(settings: SunLightSettings | undefined, targetObjectId: string): THREE.Vector3 | null {
+    if (!settings || settings.source === 'fixed') {
+      return null;
+    }
+
+    const timeField = settings.timeField;
+    const time = this.dataProcessor.getEffectiveTime(timeField);
+    const value = new THREE.Vector3(
+      this.dataProcessor.getCurrentDataFieldValue(settings.sunX, 0, timeField, 'linear'),
+      this.dataProcessor.getCurrentDataFieldValue(settings.sunY, 0, timeField, 'linear'),
+      this.dataProcessor.getCurrentDataFieldValue(settings.sunZ, 0, timeField, 'linear')
+    );
+
+    let direction: THREE.Vector3;
+    if (settings.source === 'position') {
+      // 太陽の位置からターゲット（未指定の場合は原点）への方向の逆向き
+      const target = targetObjectId !== 'origin' ? this.objectsRef.current.get(targetObjectId) : undefined;
+      const targetPosition = target ? target.position : this.renderOrigin.clone().negate();
+      direction = this.toSceneFrame(value, time).sub(targetPosition);
+    } else {
+      direction = value.applyQuaternion(this.getSceneFrameRotation(time));
+    }
+
+    const lengthSq = direction.lengthSq();
+    return lengthSq > 0 && isFinite(lengthSq) ? direction.normalize() : null;
+  }
+
+  // チェイサー（caster）の影をターゲット（receiver）に落とし、影のカメラを両者を囲む範囲に合わせる
+  // どちらかのオブジェクトが無い場合は影を描画しない
+  updateShadows(light: THREE.DirectionalLight, receiverId?: string, casterId?: string): void {
+    // 対象が変わった場合のみ全オブジェクトに反映（作成されたオブジェクトにはaddObjectToSceneで反映）
+    if (this.shadowIds.receiverId !== receiverId || this.shadowIds.casterId !== casterId) {
+      this.shadowIds = { receiverId, casterId };
+      this.objectsRef.current.forEach((object, id) => this.applyShadowFlags(object, id));
+    }
+
+    const receiver = receiverId ? this.objectsRef.current.get(receiverId) : undefined;
+    const caster = casterId ? this.objectsRef.current.get(casterId) : undefined;
+    if (!receiver || !caster || receiver === caster) {
+      light.castShadow = false;
+      return;
+    }
+
+    const bounds = new THREE.Box3().setFromObject(receiver).union(new THREE.Box3().setFromObject(caster));
+    if (bounds.isEmpty()) {
+      light.castShadow = false;
+      return;
+    }
+    const sphere = bounds.getBoundingSphere(new THREE.Sphere());
+    const radius = Math.max(sphere.radius, 1e-6);
+
+    // 光の向きを保ったまま、両者を囲む球の中心を照らすように配置
+    const direction = light.position.clone().sub(light.target.position).normalize();
+    light.target.position.copy(sphere.center);
+    light.position.copy(sphere.center).addScaledVector(direction, radius * 2);
+
+    const shadowCamera = light.shadow.camera;
+    shadowCamera.left = -radius;
+    shadowCamera.right = radius;
+    shadowCamera.top = radius;
+    shadowCamera.bottom = -radius;
+    shadowCamera.near = radius * 0.01;
+    shadowCamera.far = radius * 4;
+    shadowCamera.updateProjectionMatrix();
+
+    // シャドウアクネを防ぐため、法線方向のバイアスをシャドウマップの1テクセル程度にする
+    light.shadow.normalBias = 2 * radius / light.shadow.mapSize.width;
+    light.castShadow = true;
+  }
+
+  private applyShadowFlags(object: THREE.Object3D, id: string): void {
+    // 影を描画しない場合は光源側で無効にするため、作成時の設定のままにする
+    const { receiverId, casterId } = this.shadowIds;
+    if (!receiverId || !casterId || receiverId === casterId) {
+      return;
+    }
+    object.traverse((child) => {
+      if (child instanceof THREE.Mesh) {
+        child.castShadow = id === casterId;
+        child.receiveShadow = id === receiverId;
+      }
+    });
   }
 
   // Create annotation object
@@ -150,36 +1075,42 @@ export class ThreeSceneObjectManager {
     let posXArray, posYArray, posZArray;
     if (mixedPos) {
       // 混在の場合は最後の値のみ
-      posXArray = [this.dataProcessor.getLastDataFieldValue(shape.posX, 0)];
-      posYArray = [this.dataProcessor.getLastDataFieldValue(shape.posY, 0)];
-      posZArray = [this.dataProcessor.getLastDataFieldValue(shape.posZ, 0)];
+      posXArray = [this.getLatestAlignedValue(shape, shape.posX)];
+      posYArray = [this.getLatestAlignedValue(shape, shape.posY)];
+      posZArray = [this.getLatestAlignedValue(shape, shape.posZ)];
     } else if (xyzFieldTextConst) {
       // XYZがfield配列、textがconstantの場合は最後の位置のみ
-      posXArray = [this.dataProcessor.getLastDataFieldValue(shape.posX, 0)];
-      posYArray = [this.dataProcessor.getLastDataFieldValue(shape.posY, 0)];
-      posZArray = [this.dataProcessor.getLastDataFieldValue(shape.posZ, 0)];
+      posXArray = [this.getLatestAlignedValue(shape, shape.posX)];
+      posYArray = [this.getLatestAlignedValue(shape, shape.posY)];
+      posZArray = [this.getLatestAlignedValue(shape, shape.posZ)];
     } else {
       // 通常の処理
-      posXArray = this.dataProcessor.getDataFieldValue(shape.posX, 0);
-      posYArray = this.dataProcessor.getDataFieldValue(shape.posY, 0);
-      posZArray = this.dataProcessor.getDataFieldValue(shape.posZ, 0);
+      posXArray = this.getAlignedValues(shape, shape.posX);
+      posYArray = this.getAlignedValues(shape, shape.posY);
+      posZArray = this.getAlignedValues(shape, shape.posZ);
     }
     
     // テキストデータを取得（混在の場合は最後の値のみ）
     const textArray = mixedWithText ? 
-      [this.dataProcessor.getFieldValueAsString(shape.text, '')[this.dataProcessor.getFieldValueAsString(shape.text, '').length - 1] || 'Point 1'] : 
-      this.dataProcessor.getFieldValueAsString(shape.text, '');
+      [this.dataProcessor.getFieldValueAsStringInTimeOrder(shape.text, shape.timeField)[this.dataProcessor.getFieldValueAsStringInTimeOrder(shape.text, shape.timeField).length - 1] || 'Point 1'] : 
+      this.dataProcessor.getFieldValueAsStringInTimeOrder(shape.text, shape.timeField);
 
     const group = new THREE.Group();
 
     // 最大配列長を取得
     const maxLength = Math.max(posXArray.length, posYArray.length, posZArray.length, textArray.length);
+    const annotationTimes = this.getFrameSampleTimes(shape, [shape.posX, shape.posY, shape.posZ], posXArray.length);
 
     // 各データポイントに対してアノテーション（線+ツールチップ）を作成
     for (let i = 0; i < maxLength; i++) {
-      const posX = i < posXArray.length ? posXArray[i] : (posXArray.length > 0 ? posXArray[posXArray.length - 1] : 0);
-      const posY = i < posYArray.length ? posYArray[i] : (posYArray.length > 0 ? posYArray[posYArray.length - 1] : 0);
-      const posZ = i < posZArray.length ? posZArray[i] : (posZArray.length > 0 ? posZArray[posZArray.length - 1] : 0);
+      const framedPos = this.toSceneFrame(new THREE.Vector3(
+        i < posXArray.length ? posXArray[i] : (posXArray.length > 0 ? posXArray[posXArray.length - 1] : 0),
+        i < posYArray.length ? posYArray[i] : (posYArray.length > 0 ? posYArray[posYArray.length - 1] : 0),
+        i < posZArray.length ? posZArray[i] : (posZArray.length > 0 ? posZArray[posZArray.length - 1] : 0)
+      ), annotationTimes[i]);
+      const posX = framedPos.x;
+      const posY = framedPos.y;
+      const posZ = framedPos.z;
       const text = i < textArray.length ? textArray[i] : (textArray.length > 0 ? textArray[textArray.length - 1] : `Point ${i + 1}`);
 
       // Skip empty text
@@ -328,13 +1259,13 @@ export class ThreeSceneObjectManager {
   // Create 3D model object
   create3DModel(shape: any): Promise<THREE.Group> {
     return new Promise((resolve, reject) => {
-      const posX = this.dataProcessor.getLastDataFieldValue(shape.posX, 0);
-      const posY = this.dataProcessor.getLastDataFieldValue(shape.posY, 0);
-      const posZ = this.dataProcessor.getLastDataFieldValue(shape.posZ, 0);
+      const position = this.getShapePosition(shape);
 
       // URLが指定されていない場合はデフォルトキューブを作成
       if (!shape.url || shape.url.trim() === '') {
-        const model = this.createDefaultCube(shape, posX, posY, posZ);
+        this.modelLoadStates.delete(shape.id);
+        const model = this.createDefaultCube(shape, position);
+        this.applyMaterialOverrides(model, shape);
         resolve(model);
         return;
       }
@@ -343,52 +1274,32 @@ export class ThreeSceneObjectManager {
       const currentVersion = (this.loadingVersions.get(shape.id) || 0) + 1;
       this.loadingVersions.set(shape.id, currentVersion);
 
-      this.gltfLoader.load(
+      this.modelLoadStates.set(shape.id, { objectId: shape.id, name: shape.name, url: shape.url, status: 'loading' });
+
+      // 同じURLのモデルはキャッシュから複製して取得（他のパネルとも共有）
+      const format = ModelLoader.resolveFormat(shape.url, shape.modelFormat);
+      ModelCache.acquire(
         shape.url,
-        (gltf) => {
-          // 古いバージョンの結果は無視
+        format,
+        (loadedModel) => {
+          // 古いバージョンの結果は無視（取得した参照は解放）
           if (this.loadingVersions.get(shape.id) !== currentVersion) {
             console.log(`Ignoring outdated model load for ${shape.name} (version ${currentVersion})`);
+            ModelCache.release(loadedModel);
             return;
           }
+          this.modelLoadStates.delete(shape.id);
 
-          const model = gltf.scene;
-          model.position.set(posX, posY, posZ);
+          const model = loadedModel;
+          // 読み込み中に描画原点やシーン時刻が変わる場合があるため、読み込み完了時の位置を使用
+          model.position.copy(this.getShapePosition(shape));
 
           // 単位に応じたスケーリングを適用
           const unitScale = shape.unit === 'm' ? 0.001 : 1.0; // メートル単位の場合は1/1000
 
-          // 3Dモデルのマテリアルを改善して均等な照明を確保
+          // マテリアルはapplyMaterialOverridesで設定（読み込んだマテリアルを元に作成）
           model.traverse((child) => {
             if (child instanceof THREE.Mesh) {
-              // 元のマテリアルがある場合、より明るい設定に変更
-              if (child.material) {
-                // MeshLambertMaterialをMeshPhongMaterialに変更してより滑らかな照明にする
-                if (child.material instanceof THREE.MeshLambertMaterial) {
-                  const newMaterial = new THREE.MeshPhongMaterial({
-                    color: child.material.color,
-                    map: child.material.map,
-                    transparent: child.material.transparent,
-                    opacity: child.material.opacity,
-                    side: child.material.side,
-                    // 追加のプロパティで均等な照明を確保
-                    shininess: 30,
-                    specular: new THREE.Color(0x111111)
-                  });
-                  child.material = newMaterial;
-                } else if (child.material instanceof THREE.MeshStandardMaterial || 
-                          child.material instanceof THREE.MeshPhysicalMaterial) {
-                  // PBRマテリアルの場合、roughnessを調整して反射を抑制
-                  child.material.roughness = Math.min(child.material.roughness + 0.2, 1.0);
-                  child.material.metalness = Math.max(child.material.metalness - 0.1, 0.0);
-                }
-                
-                // 色の調整は行わず、ライティング設定で明度を調整
-                // if (child.material.color) {
-                //   child.material.color.multiplyScalar(1.05);
-                // }
-              }
-              
               // シャドウ設定を調整
               child.castShadow = true;
               child.receiveShadow = false; // セルフシャドウを避けるため、影を受けないように設定
@@ -396,14 +1307,11 @@ export class ThreeSceneObjectManager {
           });
 
           // Apply rotation if quaternion is provided
-          if (shape.quatX && shape.quatY && shape.quatZ && shape.quatW) {
-            const quatX = this.dataProcessor.getLastDataFieldValue(shape.quatX, 0);
-            const quatY = this.dataProcessor.getLastDataFieldValue(shape.quatY, 0);
-            const quatZ = this.dataProcessor.getLastDataFieldValue(shape.quatZ, 0);
-            const quatW = this.dataProcessor.getLastDataFieldValue(shape.quatW, 1);
-            
-            model.quaternion.set(quatX, quatY, quatZ, quatW);
+          const quaternion = this.getShapeQuaternion(shape);
+          if (quaternion) {
+            model.quaternion.copy(quaternion);
           }
+          this.updateArticulations(model, shape);
 
           // Apply scale (including unit scaling)
           if (shape.autoScale === 'off' && shape.scale !== undefined) {
@@ -439,48 +1347,58 @@ export class ThreeSceneObjectManager {
             boundingBox: sizeInfo.boundingBox,
             viewAngleConfig: viewAngleConfig,
             unitScale: unitScale, // 単位スケール情報を保存
-            originalUrl: shape.url // URLを記録して変更検出に使用
+            originalUrl: shape.url, // URLを記録して変更検出に使用
+            modelFormat: shape.modelFormat || 'auto'
           };
 
           model.name = shape.name;
+          this.applyMaterialOverrides(model, shape);
 
           resolve(model);
         },
         (progress) => {
-          // Progress monitoring without logging
+          const state = this.modelLoadStates.get(shape.id);
+          if (state && this.loadingVersions.get(shape.id) === currentVersion) {
+            state.progress = progress.lengthComputable && progress.total > 0 ? progress.loaded / progress.total : undefined;
+          }
         },
         (error: any) => {
           // 古いバージョンのエラーは無視
           if (this.loadingVersions.get(shape.id) !== currentVersion) {
             return;
           }
-          
-          console.error(`[NETWORK] Failed to load 3D model "${shape.name}":`, error);
-          console.error(`[NETWORK] Error type:`, error.constructor?.name || 'Unknown');
-          console.error(`[NETWORK] Error message:`, error.message || 'No message');
-          
-          // Additional debugging for network errors
-          if (error.target && error.target.status) {
-            console.error(`[NETWORK] HTTP Status:`, error.target.status, error.target.statusText);
-            console.error(`[NETWORK] Response URL:`, error.target.responseURL);
-          }
-          
-          // Check if it's a CORS error
-          if (error.message && error.message.toLowerCase().includes('cors')) {
-            console.error(`[NETWORK] CORS Error detected - check server CORS headers`);
-          }
-          
-          // Check if it's a network error
-          if (error.message && (error.message.toLowerCase().includes('network') || error.message.toLowerCase().includes('fetch'))) {
-            console.error(`[NETWORK] Network Error detected - check server availability`);
-          }
-          
+
+          // パネル内のエラー表示用に記録
+          const failure = ModelCache.getFailure(shape.url, format) || { url: shape.url, format, ...ModelCache.describeError(error) };
+          this.modelLoadStates.set(shape.id, {
+            objectId: shape.id,
+            name: shape.name,
+            url: shape.url,
+            status: 'error',
+            failure
+          });
+
+          const status = failure.httpStatus !== undefined ? ` (HTTP ${failure.httpStatus})` : '';
+          const hint = failure.corsSuspected ? ' - no response, check the server CORS headers' : '';
+          console.error(`Failed to load 3D model "${shape.name}" from ${failure.url}${status}: ${failure.message}${hint}`);
+
           reject(error);
         }
       );
     });
   }
 
+  /**
+   * 3Dモデルの読み込み状態を取得
+   * @param shapes - 現在のオブジェクト設定（非表示・削除済み・URL変更済みのオブジェクトの状態は除外）
+   * @returns 読み込み中または読み込みに失敗したモデルの状態
+   */
+  getModelLoadStates(shapes: Shape[]): ModelLoadState[] {
+    return [...this.modelLoadStates.values()].filter(state =>
+      shapes.some(shape => shape.id === state.objectId && shape.visible && shape.type === '3dmodel' && shape.url === state.url)
+    );
+  }
+
   // Update existing objects with new data
   updateObjects(objects: Shape[]): void {
     objects.forEach((shape) => {
@@ -491,15 +1409,11 @@ export class ThreeSceneObjectManager {
 
       try {
         if (shape.type === 'sphere') {
-          const posX = this.dataProcessor.getLastDataFieldValue(shape.posX, 0);
-          const posY = this.dataProcessor.getLastDataFieldValue(shape.posY, 0);
-          const posZ = this.dataProcessor.getLastDataFieldValue(shape.posZ, 0);
-          
-          existingObject.position.set(posX, posY, posZ);
+          existingObject.position.copy(this.getShapePosition(shape));
           
           // 球体の色を更新
           if (existingObject instanceof THREE.Mesh && existingObject.material instanceof THREE.MeshLambertMaterial) {
-            existingObject.material.color.set(shape.color || '#ff0000');
+            existingObject.material.color.set(this.getShapeColor(shape, shape.color || '#ff0000'));
           }
           
           // 球体のサイズを更新
@@ -531,15 +1445,12 @@ export class ThreeSceneObjectManager {
           this.updateAnnotationText(existingObject as THREE.Group, null, shape);
           
         } else if (shape.type === '3dmodel') {
-          const posX = this.dataProcessor.getLastDataFieldValue(shape.posX, 0);
-          const posY = this.dataProcessor.getLastDataFieldValue(shape.posY, 0);
-          const posZ = this.dataProcessor.getLastDataFieldValue(shape.posZ, 0);
-          
-          // URLが変更された場合は完全に再作成
+          // URLまたは形式が変更された場合は完全に再作成
           const currentUrl = existingObject.userData.originalUrl || '';
           const newUrl = shape.url || '';
+          const formatChanged = newUrl !== '' && (existingObject.userData.modelFormat || 'auto') !== (shape.modelFormat || 'auto');
           
-          if (currentUrl !== newUrl) {
+          if (currentUrl !== newUrl || formatChanged) {
             console.log(`3D model URL changed for ${shape.name}, recreating object`);
             // 既存オブジェクトを削除
             this.removeObjectsFromScene([shape.id]);
@@ -551,25 +1462,23 @@ export class ThreeSceneObjectManager {
               if (this.loadingVersions.get(shape.id) === currentVersion) {
                 this.addObjectToScene(newModel, shape.id);
               }
-            }).catch((error) => {
-              console.error(`Failed to recreate 3D model for ${shape.name}:`, error);
+            }).catch(() => {
+              // 失敗はcreate3DModelでログ出力し、パネルのエラーカードに表示済み
             });
             
             return; // 他の更新処理はスキップ
           }
           
           // URLが同じ場合は位置とスケールのみ更新
-          existingObject.position.set(posX, posY, posZ);
+          existingObject.position.copy(this.getShapePosition(shape));
           
           // クオータニオンを更新
-          if (shape.quatX && shape.quatY && shape.quatZ && shape.quatW) {
-            const quatX = this.dataProcessor.getLastDataFieldValue(shape.quatX, 0);
-            const quatY = this.dataProcessor.getLastDataFieldValue(shape.quatY, 0);
-            const quatZ = this.dataProcessor.getLastDataFieldValue(shape.quatZ, 0);
-            const quatW = this.dataProcessor.getLastDataFieldValue(shape.quatW, 1);
-            
-            existingObject.quaternion.set(quatX, quatY, quatZ, quatW);
+          const quaternion = this.getShapeQuaternion(shape);
+          if (quaternion) {
+            existingObject.quaternion.copy(quaternion);
           }
+          this.updateArticulations(existingObject, shape);
+          this.applyMaterialOverrides(existingObject, shape);
           
           // 単位スケーリングを確認・更新
           const unitScale = shape.unit === 'm' ? 0.001 : 1.0;
@@ -606,6 +1515,26 @@ export class ThreeSceneObjectManager {
           // URLを更新
           existingObject.userData.originalUrl = newUrl;
           
+        } else if (shape.type === 'vector') {
+          this.updateVector(existingObject as THREE.Group, shape);
+        } else if (shape.type === 'ellipsoid') {
+          this.updateEllipsoid(existingObject as THREE.Mesh, shape);
+        } else if (shape.type === 'eclipseCone') {
+          // 円錐の形状は設定値と天体の半径で決まるため、作り直しはupdateEclipseConesで行う
+          this.updateEclipseCone(existingObject as THREE.Group, shape);
+        } else if (shape.type === 'sensorFov' || shape.type === 'safetyZone') {
+          // 視野・ゾーンの形状は設定値のみで決まるため、形状の設定が変わった場合のみ再作成
+          const isFov = shape.type === 'sensorFov';
+          const geometryKey = isFov ? this.getSensorFovGeometryKey(shape) : this.getSafetyZoneGeometryKey(shape);
+          if (existingObject.userData.geometryKey !== geometryKey) {
+            this.removeObjectsFromScene([shape.id]);
+            this.addObjectToScene(isFov ? this.createSensorFov(shape) : this.createSafetyZone(shape), shape.id);
+          } else if (isFov) {
+            this.updateSensorFov(existingObject as THREE.Group, shape);
+          } else {
+            this.updateSafetyZone(existingObject as THREE.Group, shape);
+          }
+          this.updateAttachments();
         } else if (shape.type === 'polyline') {
           // ポリライン全体を再作成する必要がある（ポイントデータの変更の可能性があるため）
           this.removeObjectsFromScene([shape.id]);
@@ -618,6 +1547,527 @@ export class ThreeSceneObjectManager {
     });
   }
 
+  // シーン時刻の変更時に位置・姿勢のみを更新（ポリラインは分割位置のみ更新）
+  updateSceneTime(objects: Shape[]): void {
+    objects.forEach((shape) => {
+      if (shape.visible && shape.type === 'polyline' && (shape.futureSplit || 'off') !== 'off' && this.objectsRef.current.has(shape.id)) {
+        this.updatePolylineSplit(this.objectsRef.current.get(shape.id)!, shape);
+        return;
+      }
+
+      if (shape.visible && shape.type === 'vector' && this.objectsRef.current.has(shape.id)) {
+        this.updateVector(this.objectsRef.current.get(shape.id) as THREE.Group, shape);
+        return;
+      }
+
+      if (shape.visible && shape.type === 'ellipsoid' && this.objectsRef.current.has(shape.id)) {
+        this.updateEllipsoid(this.objectsRef.current.get(shape.id) as THREE.Mesh, shape);
+        return;
+      }
+
+      if (!shape.visible || (shape.type !== 'sphere' && shape.type !== '3dmodel')) {
+        return;
+      }
+
+      const existingObject = this.objectsRef.current.get(shape.id);
+      if (!existingObject) {
+        return;
+      }
+
+      existingObject.position.copy(this.getShapePosition(shape));
+
+      // フィールドの値で色を決める場合はシーン時刻の値の色に更新
+      if (shape.type === 'sphere' && existingObject instanceof THREE.Mesh && existingObject.material instanceof THREE.MeshLambertMaterial) {
+        existingObject.material.color.set(this.getShapeColor(shape, shape.color || '#ff0000'));
+      }
+
+      if (shape.type === '3dmodel') {
+        const quaternion = this.getShapeQuaternion(shape);
+        if (quaternion) {
+          existingObject.quaternion.copy(quaternion);
+        }
+        this.updateArticulations(existingObject, shape);
+      }
+    });
+
+    this.updateTrails(objects, true);
+  }
+
+  // SphereとModelの軌跡を再作成（軌跡が無効または非表示のオブジェクトの軌跡は削除）
+  // keepWindow: シーン時刻の変更時は、軌跡に含まれるサンプルが変わらなければ末尾（現在位置）のみ更新
+  updateTrails(objects: Shape[], keepWindow = false): void {
+    const trailShapes = objects.filter((shape) =>
+      shape.visible && (shape.type === 'sphere' || shape.type === '3dmodel') && (shape.trailMode || 'off') !== 'off'
+    );
+    const trailIds = new Set(trailShapes.map(shape => shape.id));
+
+    [...this.trails.keys()].forEach((id) => {
+      if (!trailIds.has(id)) {
+        this.removeTrail(id);
+      }
+    });
+
+    trailShapes.forEach((shape) => {
+      const trailWindow = this.getTrailWindow(shape);
+      const existing = this.trails.get(shape.id);
+      if (keepWindow && trailWindow && existing && existing.userData.windowKey === trailWindow.key) {
+        this.updateTrailHead(existing, shape);
+        return;
+      }
+
+      this.removeTrail(shape.id);
+      const trail = trailWindow ? this.createTrail(shape, trailWindow) : null;
+      if (trail) {
+        this.scene.add(trail);
+        this.trails.set(shape.id, trail);
+      }
+    });
+  }
+
+  // シーン時刻までの軌跡に含めるサンプル時刻と時刻マーカーの時刻を取得
+  private getTrailWindow(shape: any): { times: number[]; tickTimes: number[]; key: string } | null {
+    const endTime = this.dataProcessor.getEffectiveTime(shape.timeField) ?? this.getLastPositionSampleTime(shape);
+    if (endTime === undefined) {
+      return null;
+    }
+
+    const allTimes = this.getPositionSampleTimes(shape).filter(t => t <= endTime);
+    const length = Math.max(0, shape.trailLength ?? 10);
+    const times = shape.trailMode === 'samples'
+      ? allTimes.slice(Math.max(0, allTimes.length - Math.floor(length)))
+      : allTimes.filter(t => t >= endTime - length * 60000);
+    if (times.length === 0) {
+      return null;
+    }
+
+    // 一定時間間隔の時刻マーカー
+    const tickTimes: number[] = [];
+    const tickInterval = (shape.trailTickInterval || 0) * 1000;
+    if (tickInterval > 0) {
+      const startTime = shape.trailMode === 'samples' ? times[0] : endTime - length * 60000;
+      for (let t = Math.ceil(startTime / tickInterval) * tickInterval; t <= endTime && tickTimes.length < 1000; t += tickInterval) {
+        if (t >= times[0]) {
+          tickTimes.push(t);
+        }
+      }
+    }
+
+    const key = [times[0], times[times.length - 1], times.length, tickTimes[0], tickTimes[tickTimes.length - 1], tickTimes.length].join(':');
+    return { times, tickTimes, key };
+  }
+
+  // シーン時刻までの過去サンプルから軌跡（フェード付きの線と時刻マーカー）を作成
+  private createTrail(shape: any, trailWindow: { times: number[]; tickTimes: number[]; key: string }): THREE.Group | null {
+    const timeField = shape.timeField;
+    const { times, tickTimes } = trailWindow;
+    const join = shape.timeJoin || 'previous';
+    const getPositionAt = (t: number) => this.toSceneFrame(new THREE.Vector3(
+      this.dataProcessor.getDataFieldValueAtTime(shape.posX, t, 0, join, timeField),
+      this.dataProcessor.getDataFieldValueAtTime(shape.posY, t, 0, join, timeField),
+      this.dataProcessor.getDataFieldValueAtTime(shape.posZ, t, 0, join, timeField)
+    ), t);
+
+    // 補間表示中でもオブジェクトと繋がるよう、末尾に現在位置を追加
+    const points = times.map(getPositionAt);
+    points.push(this.getShapePosition(shape));
+    if (points.length < 2) {
+      return null;
+    }
+
+    const color = new THREE.Color(shape.trailColor || shape.color || '#ffffff');
+    const fade = shape.trailFade !== 'off';
+    const colors: number[] = [];
+    points.forEach((_, i) => {
+      const alpha = fade ? (i + 1) / points.length : 1;
+      colors.push(color.r, color.g, color.b, alpha);
+    });
+
+    const geometry = new THREE.BufferGeometry().setFromPoints(points);
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 4));
+    const material = new THREE.LineBasicMaterial({ vertexColors: true, transparent: true });
+
+    const group = new THREE.Group();
+    group.add(new THREE.Line(geometry, material));
+
+    if (tickTimes.length > 0) {
+      const tickPoints = tickTimes.map(t => this.toSceneFrame(new THREE.Vector3(
+        this.dataProcessor.getDataFieldValueAtTime(shape.posX, t, 0, 'linear', timeField),
+        this.dataProcessor.getDataFieldValueAtTime(shape.posY, t, 0, 'linear', timeField),
+        this.dataProcessor.getDataFieldValueAtTime(shape.posZ, t, 0, 'linear', timeField)
+      ), t));
+      const tickGeometry = new THREE.BufferGeometry().setFromPoints(tickPoints);
+      const tickMaterial = new THREE.PointsMaterial({ color, size: 5, sizeAttenuation: false });
+      group.add(new THREE.Points(tickGeometry, tickMaterial));
+    }
+
+    group.userData = { isTrail: true, shapeId: shape.id, windowKey: trailWindow.key };
+    return group;
+  }
+
+  // 軌跡の末尾（オブジェクトの現在位置）の頂点のみ更新
+  private updateTrailHead(trail: THREE.Group, shape: any): void {
+    const line = trail.children.find((child): child is THREE.Line => child instanceof THREE.Line);
+    const position = line?.geometry.getAttribute('position');
+    if (!line || !position) {
+      return;
+    }
+    const head = this.getShapePosition(shape);
+    position.setXYZ(position.count - 1, head.x, head.y, head.z);
+    position.needsUpdate = true;
+    line.geometry.computeBoundingSphere();
+  }
+
+  // 位置のサンプル時刻を取得（時刻フィールドを紐付けている場合はその時刻）
+  private getPositionSampleTimes(shape: any): number[] {
+    return this.getSampleTimes(shape, [shape.posX, shape.posY, shape.posZ]).filter(t => isFinite(t));
+  }
+
+  // フィールドの値に対応するサンプル時刻を取得（最初に見つかった時刻付きフィールドを使用）
+  private getSampleTimes(shape: any, fields: any[]): number[] {
+    if (shape.timeField) {
+      return this.dataProcessor.getTimeFieldValues(shape.timeField);
+    }
+
+    for (const field of fields) {
+      const samples = this.dataProcessor.getFieldSamples(field);
+      if (samples) {
+        return samples.times;
+      }
+    }
+    return [];
+  }
+
+  private getLastPositionSampleTime(shape: any): number | undefined {
+    const times = this.getPositionSampleTimes(shape);
+    return times.length > 0 ? times[times.length - 1] : undefined;
+  }
+
+  private removeTrail(id: string): void {
+    const trail = this.trails.get(id);
+    if (!trail) {
+      return;
+    }
+
+    trail.traverse((child) => {
+      if (child instanceof THREE.Line || child instanceof THREE.Points) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    });
+    this.scene.remove(trail);
+    this.trails.delete(id);
+  }
+
+  // 時刻フィールドの各サンプル時刻に揃えた値の配列を取得（時刻フィールド未設定の場合はそのままの配列）
+  private getAlignedValues(shape: any, field: any): number[] {
+    return this.dataProcessor.getAlignedDataFieldValue(field, shape.timeField, shape.timeJoin || 'previous');
+  }
+
+  // 時刻フィールドの最新サンプル時刻に揃えた値を取得
+  private getLatestAlignedValue(shape: any, field: any): number {
+    if (!shape.timeField) {
+      return this.dataProcessor.getLastDataFieldValue(field, 0);
+    }
+
+    const values = this.getAlignedValues(shape, field);
+    const lastValue = values[values.length - 1];
+    return isFinite(lastValue) ? lastValue : 0;
+  }
+
+  // シーン時刻における位置を取得（シーンの基準座標系に変換済み）
+  private getShapePosition(shape: any): THREE.Vector3 {
+    const time = this.dataProcessor.getEffectiveTime(shape.timeField);
+    return this.toSceneFrame(this.getRawShapePosition(shape, time), time);
+  }
+
+  // 指定時刻における位置を取得（補間設定に応じてサンプル間を補間、undefinedの場合は最後の値）
+  private getRawShapePosition(shape: any, time: number | undefined): THREE.Vector3 {
+    const timeField = shape.timeField;
+    const interpolation = shape.interpolation || 'none';
+
+    if (time === undefined) {
+      return new THREE.Vector3(
+        this.dataProcessor.getLastDataFieldValue(shape.posX, 0),
+        this.dataProcessor.getLastDataFieldValue(shape.posY, 0),
+        this.dataProcessor.getLastDataFieldValue(shape.posZ, 0)
+      );
+    }
+
+    if (interpolation === 'none') {
+      // 補間なしの場合は時刻の結合方法でサンプルを選択
+      const join = shape.timeJoin || 'previous';
+      return new THREE.Vector3(
+        this.dataProcessor.getDataFieldValueAtTime(shape.posX, time, 0, join, timeField),
+        this.dataProcessor.getDataFieldValueAtTime(shape.posY, time, 0, join, timeField),
+        this.dataProcessor.getDataFieldValueAtTime(shape.posZ, time, 0, join, timeField)
+      );
+    }
+
+    const hasVelocity = [shape.velX, shape.velY, shape.velZ].every((field) => field && field.value !== '');
+    if (interpolation === 'hermite' && hasVelocity) {
+      return new THREE.Vector3(
+        this.getHermiteValue(shape.posX, shape.velX, time, timeField),
+        this.getHermiteValue(shape.posY, shape.velY, time, timeField),
+        this.getHermiteValue(shape.posZ, shape.velZ, time, timeField)
+      );
+    }
+
+    // 速度フィールドが無い場合のエルミート補間は線形補間で代用
+    return new THREE.Vector3(
+      this.dataProcessor.getDataFieldValueAtTime(shape.posX, time, 0, 'linear', timeField),
+      this.dataProcessor.getDataFieldValueAtTime(shape.posY, time, 0, 'linear', timeField),
+      this.dataProcessor.getDataFieldValueAtTime(shape.posZ, time, 0, 'linear', timeField)
+    );
+  }
+
+  // 位置と速度のサンプルから1軸分のエルミート補間値を計算
+  private getHermiteValue(posField: any, velField: any, time: number, timeField?: string): number {
+    const bracket = this.dataProcessor.getFieldBracketAtTime(posField, time, timeField);
+    if (!bracket) {
+      return this.dataProcessor.getLastDataFieldValue(posField, 0);
+    }
+
+    const vel0 = this.dataProcessor.getDataFieldValueAtTime(velField, bracket.t0, 0, 'linear', timeField);
+    const vel1 = this.dataProcessor.getDataFieldValueAtTime(velField, bracket.t1, 0, 'linear', timeField);
+    const value = TimeInterpolation.hermite(bracket, vel0, vel1, time);
+    return isFinite(value) ? value : bracket.v0;
+  }
+
+  // シーン時刻における値を取得（位置と同じ時刻の結合方法・補間設定）
+  private getSceneTimeValue(shape: any, field: any, defaultValue = 0): number {
+    const time = this.dataProcessor.getEffectiveTime(shape.timeField);
+    if (time === undefined) {
+      return this.dataProcessor.getLastDataFieldValue(field, defaultValue);
+    }
+    const join = (shape.interpolation || 'none') !== 'none' ? 'linear' : shape.timeJoin || 'previous';
+    return this.dataProcessor.getDataFieldValueAtTime(field, time, defaultValue, join, shape.timeField);
+  }
+
+  // フィールドの値から色への変換関数を取得（フィールドの値で色を決めない場合、またはフィールドが無い場合はnull）
+  private getColorScale(shape: any): ((value: number) => string) | null {
+    if (shape.colorSource !== 'field' || !shape.colorField) {
+      return null;
+    }
+    const field = this.dataProcessor.getField(shape.colorField, shape.timeField);
+    if (!field) {
+      return null;
+    }
+    if (!this.colorScales.has(field)) {
+      this.colorScales.set(field, FieldColorScale.create(field, this.theme));
+    }
+    return this.colorScales.get(field)!;
+  }
+
+  // シーン時刻の値に応じた色を取得（フィールドの値で色を決めない場合は指定の色）
+  private getShapeColor(shape: any, fallback: string): string {
+    const toColor = this.getColorScale(shape);
+    if (!toColor) {
+      return fallback;
+    }
+    const value = this.getSceneTimeValue(shape, { sourceType: 'field', value: shape.colorField }, NaN);
+    return isFinite(value) ? toColor(value) : fallback;
+  }
+
+  /**
+   * フィールドの値で色を決めるオブジェクトの凡例を取得
+   * @param shapes - 現在のオブジェクト設定（表示中のSphere・Polylineのみ対象）
+   * @returns オブジェクトごとの凡例（同じフィールドを使うオブジェクトも個別）
+   */
+  getColorLegends(shapes: Shape[]): ColorLegend[] {
+    const legends: ColorLegend[] = [];
+    shapes.forEach((shape) => {
+      if (!shape.visible || (shape.type !== 'sphere' && shape.type !== 'polyline') || shape.colorSource !== 'field' || !shape.colorField) {
+        return;
+      }
+      const field = this.dataProcessor.getField(shape.colorField, shape.timeField);
+      if (field) {
+        legends.push(FieldColorScale.createLegend(shape.id, shape.name, field, this.theme));
+      }
+    });
+    return legends;
+  }
+
+  // シーン時刻における姿勢クオータニオンを取得（シーンの基準座標系に変換済み、未設定の場合はnull）
+  private getShapeQuaternion(shape: any): THREE.Quaternion | null {
+    // 天体固定座標系では基準天体のモデルは常に座標軸と一致
+    if (this.frameMode === 'bodyFixed' && this.frameCenter && shape.id === this.frameCenter.id && this.bodyRotation) {
+      return new THREE.Quaternion();
+    }
+
+    const time = this.dataProcessor.getEffectiveTime(shape.timeField);
+    const quaternion = this.getRawShapeQuaternion(shape, time);
+    return quaternion ? this.getSceneFrameRotation(time).multiply(quaternion) : null;
+  }
+
+  private getRawShapeQuaternion(shape: any, time: number | undefined): THREE.Quaternion | null {
+    if (!shape.quatX || !shape.quatY || !shape.quatZ || !shape.quatW) {
+      return null;
+    }
+
+    const timeField = shape.timeField;
+    if (time === undefined) {
+      return new THREE.Quaternion(
+        this.dataProcessor.getLastDataFieldValue(shape.quatX, 0),
+        this.dataProcessor.getLastDataFieldValue(shape.quatY, 0),
+        this.dataProcessor.getLastDataFieldValue(shape.quatZ, 0),
+        this.dataProcessor.getLastDataFieldValue(shape.quatW, 1)
+      );
+    }
+
+    // 各成分を同じ時刻に揃えて取得（成分ごとに異なるシリーズでも混在しない）
+    const join = shape.timeJoin === 'nearest' ? 'nearest' : 'previous';
+    const getQuaternionAt = (t: number) => new THREE.Quaternion(
+      this.dataProcessor.getDataFieldValueAtTime(shape.quatX, t, 0, join, timeField),
+      this.dataProcessor.getDataFieldValueAtTime(shape.quatY, t, 0, join, timeField),
+      this.dataProcessor.getDataFieldValueAtTime(shape.quatZ, t, 0, join, timeField),
+      this.dataProcessor.getDataFieldValueAtTime(shape.quatW, t, 1, join, timeField)
+    );
+
+    // 補間の前後のサンプルは最初のフィールド成分から取得（Wは定数1のことが多い）
+    const sampledField = [shape.quatX, shape.quatY, shape.quatZ, shape.quatW].find(field => field.sourceType === 'field');
+    const bracket = sampledField ? this.dataProcessor.getFieldBracketAtTime(sampledField, time, timeField) : null;
+    const interpolate = (shape.interpolation || 'none') !== 'none' || shape.timeJoin === 'linear';
+    if (!interpolate || !bracket) {
+      return getQuaternionAt(time);
+    }
+
+    // 前後のサンプル時刻における姿勢を球面線形補間
+    const alpha = TimeInterpolation.getAlpha(bracket.t0, bracket.t1, time);
+    return TimeInterpolation.slerp(getQuaternionAt(bracket.t0), getQuaternionAt(bracket.t1), alpha);
+  }
+
+  // 3Dモデルのマテリアルを設定（色・不透明度・ワイヤーフレーム等、設定が変わった場合のみ作り直す）
+  private applyMaterialOverrides(model: THREE.Object3D, shape: any): void {
+    const keepOriginal = shape.keepOriginalMaterials === 'on' || !shape.url || shape.url.trim() === '';
+    const tint = shape.tintColor ? new THREE.Color(shape.tintColor) : null;
+    const opacity = Math.min(Math.max(shape.opacity ?? 1, 0), 1);
+    const wireframe = shape.wireframe === 'on';
+    const flatShading = shape.flatShading === 'on';
+
+    const overrideKey = JSON.stringify([keepOriginal, shape.tintColor || '', opacity, wireframe, flatShading]);
+    if (model.userData.materialOverrideKey === overrideKey) {
+      return;
+    }
+    model.userData.materialOverrideKey = overrideKey;
+
+    const createMaterial = (original: THREE.Material) => {
+      const material = keepOriginal ? original.clone() : this.adjustModelMaterial(original);
+      if (tint && 'color' in material && material.color instanceof THREE.Color) {
+        material.color.multiply(tint);
+      }
+      if (opacity < 1) {
+        material.transparent = true;
+        material.opacity = original.opacity * opacity;
+      }
+      if ('wireframe' in material) {
+        (material as THREE.MeshStandardMaterial).wireframe = wireframe || (original as THREE.MeshStandardMaterial).wireframe;
+      }
+      if ('flatShading' in material) {
+        (material as THREE.MeshStandardMaterial).flatShading = flatShading || (original as THREE.MeshStandardMaterial).flatShading;
+      }
+      material.needsUpdate = true;
+      return material;
+    };
+
+    model.traverse((child) => {
+      if (!(child instanceof THREE.Mesh) || !child.material) {
+        return;
+      }
+
+      // 最初に設定した時のマテリアルを元のマテリアルとして保持し、以降は作り直したマテリアルを破棄
+      const original = this.originalMaterials.get(child);
+      if (original) {
+        (Array.isArray(child.material) ? child.material : [child.material]).forEach((material: THREE.Material) => material.dispose());
+      } else {
+        this.originalMaterials.set(child, child.material);
+      }
+      const source: THREE.Material | THREE.Material[] = original || child.material;
+      child.material = Array.isArray(source) ? source.map(createMaterial) : createMaterial(source);
+    });
+  }
+
+  // 読み込んだマテリアルを均等な照明向けに調整した複製を作成
+  private adjustModelMaterial(original: THREE.Material): THREE.Material {
+    // MeshLambertMaterialをMeshPhongMaterialに変更してより滑らかな照明にする
+    if (original instanceof THREE.MeshLambertMaterial) {
+      return new THREE.MeshPhongMaterial({
+        color: original.color,
+        map: original.map,
+        transparent: original.transparent,
+        opacity: original.opacity,
+        side: original.side,
+        // 追加のプロパティで均等な照明を確保
+        shininess: 30,
+        specular: new THREE.Color(0x111111)
+      });
+    }
+
+    const material = original.clone();
+    if (material instanceof THREE.MeshStandardMaterial || material instanceof THREE.MeshPhysicalMaterial) {
+      // PBRマテリアルの場合、roughnessを調整して反射を抑制
+      material.roughness = Math.min(material.roughness + 0.2, 1.0);
+      material.metalness = Math.max(material.metalness - 0.1, 0.0);
+    }
+    return material;
+  }
+
+  // 可動部のノードをシーン時刻の角度・クオータニオンで回転（設定から外れたノードは初期姿勢に戻す）
+  private updateArticulations(model: THREE.Object3D, shape: any): void {
+    const articulations: ModelArticulation[] = shape.articulations || [];
+    const time = this.dataProcessor.getEffectiveTime(shape.timeField);
+    const activeNodes = new Set<THREE.Object3D>();
+
+    articulations.forEach((articulation) => {
+      const nodeName = articulation.nodeName?.trim();
+      if (!nodeName) {
+        return;
+      }
+      // GLTFLoaderは空白や記号を置換したノード名を使うため、両方で検索
+      const node = model.getObjectByName(nodeName) || model.getObjectByName(THREE.PropertyBinding.sanitizeNodeName(nodeName));
+      if (!node || node === model || activeNodes.has(node)) {
+        return;
+      }
+
+      if (!node.userData.restQuaternion) {
+        node.userData.restQuaternion = node.quaternion.clone();
+      }
+      node.quaternion.copy(node.userData.restQuaternion).multiply(this.getArticulationRotation(shape, articulation, time));
+      activeNodes.add(node);
+    });
+
+    model.traverse((node) => {
+      if (node.userData.restQuaternion && !activeNodes.has(node)) {
+        node.quaternion.copy(node.userData.restQuaternion);
+        delete node.userData.restQuaternion;
+      }
+    });
+  }
+
+  // 可動部のノードの初期姿勢からの回転を取得（モデル全体と同じ時刻・補間設定）
+  private getArticulationRotation(shape: any, articulation: ModelArticulation, time: number | undefined): THREE.Quaternion {
+    if (articulation.mode === 'quaternion') {
+      const quaternion = this.getRawShapeQuaternion({
+        timeField: shape.timeField,
+        timeJoin: shape.timeJoin,
+        interpolation: shape.interpolation,
+        quatX: articulation.quatX,
+        quatY: articulation.quatY,
+        quatZ: articulation.quatZ,
+        quatW: articulation.quatW
+      }, time);
+      return quaternion && quaternion.length() > 0 ? quaternion.normalize() : new THREE.Quaternion();
+    }
+
+    const axis = new THREE.Vector3(articulation.axisX, articulation.axisY, articulation.axisZ);
+    if (!articulation.angle || axis.lengthSq() === 0) {
+      return new THREE.Quaternion();
+    }
+
+    const value = this.getSceneTimeValue(shape, articulation.angle);
+    const angle = articulation.angleUnit === 'rad' ? value : THREE.MathUtils.degToRad(value);
+    return new THREE.Quaternion().setFromAxisAngle(axis.normalize(), isFinite(angle) ? angle : 0);
+  }
+
   private updateAnnotationText(group: THREE.Group, textData: any, shape: any): void {
     // fieldとconstの混在チェック - 位置データ
     const hasConstPos = [shape.posX, shape.posY, shape.posZ].some(field => field.sourceType === 'const');
@@ -637,27 +2087,28 @@ export class ThreeSceneObjectManager {
     let posXArray, posYArray, posZArray;
     if (mixedPos) {
       // 混在の場合は最後の値のみ
-      posXArray = [this.dataProcessor.getLastDataFieldValue(shape.posX, 0)];
-      posYArray = [this.dataProcessor.getLastDataFieldValue(shape.posY, 0)];
-      posZArray = [this.dataProcessor.getLastDataFieldValue(shape.posZ, 0)];
+      posXArray = [this.getLatestAlignedValue(shape, shape.posX)];
+      posYArray = [this.getLatestAlignedValue(shape, shape.posY)];
+      posZArray = [this.getLatestAlignedValue(shape, shape.posZ)];
     } else if (xyzFieldTextConst) {
       // XYZがfield配列、textがconstantの場合は最後の位置のみ
-      posXArray = [this.dataProcessor.getLastDataFieldValue(shape.posX, 0)];
-      posYArray = [this.dataProcessor.getLastDataFieldValue(shape.posY, 0)];
-      posZArray = [this.dataProcessor.getLastDataFieldValue(shape.posZ, 0)];
+      posXArray = [this.getLatestAlignedValue(shape, shape.posX)];
+      posYArray = [this.getLatestAlignedValue(shape, shape.posY)];
+      posZArray = [this.getLatestAlignedValue(shape, shape.posZ)];
     } else {
       // 通常の処理
-      posXArray = this.dataProcessor.getDataFieldValue(shape.posX, 0);
-      posYArray = this.dataProcessor.getDataFieldValue(shape.posY, 0);
-      posZArray = this.dataProcessor.getDataFieldValue(shape.posZ, 0);
+      posXArray = this.getAlignedValues(shape, shape.posX);
+      posYArray = this.getAlignedValues(shape, shape.posY);
+      posZArray = this.getAlignedValues(shape, shape.posZ);
     }
     
     // テキストデータを取得（混在の場合は最後の値のみ）
     const textArray = mixedWithText ? 
-      [this.dataProcessor.getFieldValueAsString(shape.text, '')[this.dataProcessor.getFieldValueAsString(shape.text, '').length - 1] || 'Point 1'] : 
-      this.dataProcessor.getFieldValueAsString(shape.text, '');
+      [this.dataProcessor.getFieldValueAsStringInTimeOrder(shape.text, shape.timeField)[this.dataProcessor.getFieldValueAsStringInTimeOrder(shape.text, shape.timeField).length - 1] || 'Point 1'] : 
+      this.dataProcessor.getFieldValueAsStringInTimeOrder(shape.text, shape.timeField);
 
     const maxLength = Math.max(posXArray.length, posYArray.length, posZArray.length, textArray.length);
+    const annotationTimes = this.getFrameSampleTimes(shape, [shape.posX, shape.posY, shape.posZ], posXArray.length);
     
     // 既存のオブジェクトをクリア
     while (group.children.length > 0) {
@@ -676,9 +2127,14 @@ export class ThreeSceneObjectManager {
 
     // 新しいアノテーション（線+ツールチップ）を作成
     for (let i = 0; i < maxLength; i++) {
-      const posX = i < posXArray.length ? posXArray[i] : (posXArray.length > 0 ? posXArray[posXArray.length - 1] : 0);
-      const posY = i < posYArray.length ? posYArray[i] : (posYArray.length > 0 ? posYArray[posYArray.length - 1] : 0);
-      const posZ = i < posZArray.length ? posZArray[i] : (posZArray.length > 0 ? posZArray[posZArray.length - 1] : 0);
+      const framedPos = this.toSceneFrame(new THREE.Vector3(
+        i < posXArray.length ? posXArray[i] : (posXArray.length > 0 ? posXArray[posXArray.length - 1] : 0),
+        i < posYArray.length ? posYArray[i] : (posYArray.length > 0 ? posYArray[posYArray.length - 1] : 0),
+        i < posZArray.length ? posZArray[i] : (posZArray.length > 0 ? posZArray[posZArray.length - 1] : 0)
+      ), annotationTimes[i]);
+      const posX = framedPos.x;
+      const posY = framedPos.y;
+      const posZ = framedPos.z;
       const text = i < textArray.length ? textArray[i] : (textArray.length > 0 ? textArray[textArray.length - 1] : `Point ${i + 1}`);
 
       // Skip empty text
@@ -822,7 +2278,11 @@ export class ThreeSceneObjectManager {
   removeObjectsFromScene(objectsToRemove: string[]): void {
     objectsToRemove.forEach(id => {
       const object = this.objectsRef.current.get(id);
-      if (object) {
+      if (object && ModelCache.release(object)) {
+        // キャッシュのモデルはジオメトリ・テクスチャを共有しているため参照の解放のみ
+        this.scene.remove(object);
+        this.objectsRef.current.delete(id);
+      } else if (object) {
         // ジオメトリとマテリアルを適切にdisposeしてメモリリークを防ぐ
         object.traverse((child) => {
           if (child instanceof THREE.Mesh) {
@@ -873,6 +2333,7 @@ export class ThreeSceneObjectManager {
   addObjectToScene(object: THREE.Object3D, id: string): void {
     this.scene.add(object);
     this.objectsRef.current.set(id, object);
+    this.applyShadowFlags(object, id);
   }
 
   // 視野角ベースのスケーリングを更新
@@ -1000,7 +2461,7 @@ export class ThreeSceneObjectManager {
   }
 
   // Create default cube when no URL is specified
-  private createDefaultCube(shape: any, posX: number, posY: number, posZ: number): THREE.Group {
+  private createDefaultCube(shape: any, position: THREE.Vector3): THREE.Group {
     const group = new THREE.Group();
     
     // 1辺の長さが2*sqrt(3)/3の正六面体を作成
@@ -1018,16 +2479,12 @@ export class ThreeSceneObjectManager {
     group.add(cube);
 
     // 位置を設定
-    group.position.set(posX, posY, posZ);
+    group.position.copy(position);
 
     // クオータニオンを適用
-    if (shape.quatX && shape.quatY && shape.quatZ && shape.quatW) {
-      const quatX = this.dataProcessor.getLastDataFieldValue(shape.quatX, 0);
-      const quatY = this.dataProcessor.getLastDataFieldValue(shape.quatY, 0);
-      const quatZ = this.dataProcessor.getLastDataFieldValue(shape.quatZ, 0);
-      const quatW = this.dataProcessor.getLastDataFieldValue(shape.quatW, 1);
-      
-      group.quaternion.set(quatX, quatY, quatZ, quatW);
+    const quaternion = this.getShapeQuaternion(shape);
+    if (quaternion) {
+      group.quaternion.copy(quaternion);
     }
 
     // 単位に応じたスケーリングを適用
@@ -1131,5 +2588,9 @@ export class ThreeSceneObjectManager {
   // リソースのクリーンアップ
   dispose(): void {
     this.loadingVersions.clear();
+    this.modelLoadStates.clear();
+    [...this.trails.keys()].forEach(id => this.removeTrail(id));
+    // キャッシュのモデルの参照を解放するため、シーンのオブジェクトも削除
+    this.removeObjectsFromScene([...this.objectsRef.current.keys()]);
   }
 }
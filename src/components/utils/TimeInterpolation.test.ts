@@ -0,0 +1,46 @@
+import * as THREE from 'three';
+import { TimeInterpolation } from './TimeInterpolation';
+
+describe('TimeInterpolation', () => {
+  const bracket = { t0: 1000, t1: 3000, v0: 10, v1: 20 };
+
+  it('clamps the interpolation factor to the sample interval', () => {
+    expect(TimeInterpolation.getAlpha(1000, 3000, 500)).toBe(0);
+    expect(TimeInterpolation.getAlpha(1000, 3000, 2000)).toBe(0.5);
+    expect(TimeInterpolation.getAlpha(1000, 3000, 4000)).toBe(1);
+    expect(TimeInterpolation.getAlpha(1000, 1000, 1000)).toBe(0);
+  });
+
+  it('interpolates linearly between samples', () => {
+    expect(TimeInterpolation.lerp(bracket, 1500)).toBeCloseTo(12.5);
+  });
+
+  it('matches the sample positions at the endpoints of a Hermite segment', () => {
+    expect(TimeInterpolation.hermite(bracket, 3, -7, 1000)).toBeCloseTo(10);
+    expect(TimeInterpolation.hermite(bracket, 3, -7, 3000)).toBeCloseTo(20);
+  });
+
+  it('reproduces uniform motion when the velocities match the samples', () => {
+    // 2秒で10進む等速運動（5/秒）
+    expect(TimeInterpolation.hermite(bracket, 5, 5, 2000)).toBeCloseTo(15);
+    expect(TimeInterpolation.hermite(bracket, 5, 5, 2500)).toBeCloseTo(17.5);
+  });
+
+  it('returns the sample attitudes at the endpoints of a slerp', () => {
+    const q0 = new THREE.Quaternion();
+    const q1 = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), Math.PI / 2);
+
+    expect(TimeInterpolation.slerp(q0, q1, 0).angleTo(q0)).toBeCloseTo(0);
+    expect(TimeInterpolation.slerp(q0, q1, 1).angleTo(q1)).toBeCloseTo(0);
+  });
+
+  it('rotates halfway at the midpoint and normalizes the inputs', () => {
+    const q0 = new THREE.Quaternion(0, 0, 0, 2);
+    const q1 = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), Math.PI / 2);
+    const expected = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), Math.PI / 4);
+
+    const result = TimeInterpolation.slerp(q0, q1, 0.5);
+    expect(result.length()).toBeCloseTo(1);
+    expect(result.angleTo(expected)).toBeCloseTo(0);
+  });
+});
@@ -0,0 +1,65 @@
+import * as THREE from 'three';
+
+export interface SampleBracket {
+  t0: number;
+  t1: number;
+  v0: number;
+  v1: number;
+}
+
+export class TimeInterpolation {
+  /**
+   * 2サンプル間における補間係数を計算
+   * @param t0 - 前サンプルの時刻
+   * @param t1 - 後サンプルの時刻
+   * @param time - 補間する時刻
+   * @returns 0〜1の補間係数
+   */
+  static getAlpha(t0: number, t1: number, time: number): number {
+    if (t1 === t0) {
+      return 0;
+    }
+    return Math.max(0, Math.min(1, (time - t0) / (t1 - t0)));
+  }
+
+  /**
+   * 線形補間
+   */
+  static lerp(bracket: SampleBracket, time: number): number {
+    const alpha = this.getAlpha(bracket.t0, bracket.t1, time);
+    return bracket.v0 + (bracket.v1 - bracket.v0) * alpha;
+  }
+
+  /**
+   * 速度を用いた3次エルミート補間
+   * @param bracket - 位置サンプル（時刻はミリ秒）
+   * @param vel0 - 前サンプルの速度（位置単位/秒）
+   * @param vel1 - 後サンプルの速度（位置単位/秒）
+   * @param time - 補間する時刻（ミリ秒）
+   * @returns 補間された位置
+   */
+  static hermite(bracket: SampleBracket, vel0: number, vel1: number, time: number): number {
+    const s = this.getAlpha(bracket.t0, bracket.t1, time);
+    const dt = (bracket.t1 - bracket.t0) / 1000;
+    const s2 = s * s;
+    const s3 = s2 * s;
+
+    const h00 = 2 * s3 - 3 * s2 + 1;
+    const h10 = s3 - 2 * s2 + s;
+    const h01 = -2 * s3 + 3 * s2;
+    const h11 = s3 - s2;
+
+    return h00 * bracket.v0 + h10 * dt * vel0 + h01 * bracket.v1 + h11 * dt * vel1;
+  }
+
+  /**
+   * クオータニオンの球面線形補間
+   * @param q0 - 前サンプルの姿勢
+   * @param q1 - 後サンプルの姿勢
+   * @param alpha - 補間係数
+   * @returns 補間された姿勢（正規化済み）
+   */
+  static slerp(q0: THREE.Quaternion, q1: THREE.Quaternion, alpha: number): THREE.Quaternion {
+    return new THREE.Quaternion().slerpQuaternions(q0.clone().normalize(), q1.clone().normalize(), alpha);
+  }
+}
@@ -1,10 +1,13 @@
-import { PanelPlugin } from '@grafana/data';
+import { FieldColorModeId, FieldConfigProperty, PanelPlugin } from '@grafana/data';
 import { SimpleOptions } from './types';
 import { SimplePanel } from './components/SimplePanel';
 import { ObjectsEditor } from './components/ObjectsEditor';
 import { TargetObjectEditor } from './components/TargetObjectEditor';
+import { FrameCenterEditor } from './components/FrameCenterEditor';
 import { CameraAxisEditor } from './components/CameraAxisEditor';
 import ViewAngleScalingEditor from './components/ViewAngleScalingEditor';
+import { SunLightEditor } from './components/SunLightEditor';
+import { ShadowCasterEditor } from './components/ShadowCasterEditor';
 
 export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOptions((builder) => {
   return builder
@@ -27,6 +30,19 @@ export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOption
       defaultValue: '#000000',
       category: ['Basic Settings'],
     })
+    .addRadio({
+      path: 'colorLegend',
+      name: 'Color Legend',
+      description: 'Show the color scale of spheres and polylines colored by a field',
+      defaultValue: 'on',
+      settings: {
+        options: [
+          { value: 'on', label: 'On' },
+          { value: 'off', label: 'Off' },
+        ],
+      },
+      category: ['Basic Settings'],
+    })
 
     // Lighting Settings
     .addSliderInput({
@@ -65,6 +81,45 @@ export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOption
       },
       category: ['Lighting Settings'],
     })
+    .addCustomEditor({
+      id: 'sunLight',
+      path: 'sunLight',
+      name: 'Sun Direction',
+      description: 'Direction of the directional light. Bind a sun vector or the sun position to match the real illumination geometry',
+      editor: SunLightEditor,
+      defaultValue: {
+        source: 'fixed',
+        sunX: { sourceType: 'const', value: '1' },
+        sunY: { sourceType: 'const', value: '0' },
+        sunZ: { sourceType: 'const', value: '0' },
+        showIndicator: 'off',
+        indicatorColor: '#ffcc00'
+      },
+      category: ['Lighting Settings'],
+    })
+    .addRadio({
+      path: 'shadowMode',
+      name: 'Shadows',
+      description: 'Cast the shadow of the chaser onto the target object. The shadow camera is fitted around both objects every frame',
+      defaultValue: 'off',
+      settings: {
+        options: [
+          { value: 'off', label: 'Off' },
+          { value: 'fitted', label: 'Chaser on Target' },
+        ],
+      },
+      category: ['Lighting Settings'],
+    })
+    .addCustomEditor({
+      id: 'shadowCasterId',
+      path: 'shadowCasterId',
+      name: 'Shadow Caster Object',
+      description: 'Object whose shadow falls on the camera target object',
+      editor: ShadowCasterEditor,
+      defaultValue: '',
+      category: ['Lighting Settings'],
+      showIf: (config: SimpleOptions) => config.shadowMode === 'fitted',
+    })
 
     // Auto Scaling Factors Settings
     .addCustomEditor({
@@ -81,6 +136,111 @@ export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOption
       category: ['Auto Scaling Factors'],
     })
 
+    // Time Settings
+    .addRadio({
+      path: 'timeCursor',
+      name: 'Time Cursor',
+      description: 'Show a slider to place spheres and 3D models at any timestamp in the query range',
+      defaultValue: 'off',
+      settings: {
+        options: [
+          { value: 'on', label: 'On' },
+          { value: 'off', label: 'Off' },
+        ],
+      },
+      category: ['Time Settings'],
+    })
+    .addRadio({
+      path: 'cursorSync',
+      name: 'Dashboard Cursor Sync',
+      description: 'Move the scene time with the shared crosshair of other panels, and publish the time cursor back to them',
+      defaultValue: 'off',
+      settings: {
+        options: [
+          { value: 'on', label: 'On' },
+          { value: 'off', label: 'Off' },
+        ],
+      },
+      category: ['Time Settings'],
+    })
+
+    // Reference Frame Settings
+    .addRadio({
+      path: 'referenceFrame',
+      name: 'Reference Frame',
+      description: 'Inertial draws positions as queried. LVLH centers the scene on an object with X radial, Y in-track and Z cross-track axes. Body-fixed rotates the scene with the center body',
+      defaultValue: 'inertial',
+      settings: {
+        options: [
+          { value: 'inertial', label: 'Inertial' },
+          { value: 'lvlh', label: 'LVLH (RIC)' },
+          { value: 'bodyFixed', label: 'Body-fixed' },
+        ],
+      },
+      category: ['Reference Frame'],
+    })
+    .addCustomEditor({
+      id: 'frameCenter',
+      path: 'frameCenterId',
+      name: 'Frame Center Object',
+      description: 'Sphere or 3D model at the origin. LVLH axes use its Velocity X/Y/Z fields',
+      editor: FrameCenterEditor,
+      defaultValue: '',
+      category: ['Reference Frame'],
+      showIf: (config: SimpleOptions) => config.referenceFrame === 'lvlh' || config.referenceFrame === 'bodyFixed',
+    })
+    .addRadio({
+      path: 'bodyRotationSource',
+      name: 'Body Rotation',
+      description: 'Rotation model from the pole direction and period, or the quaternion fields of the center 3D model',
+      defaultValue: 'pole',
+      settings: {
+        options: [
+          { value: 'pole', label: 'Pole RA/Dec + Period' },
+          { value: 'quaternion', label: 'Quaternion Field' },
+        ],
+      },
+      category: ['Reference Frame'],
+      showIf: (config: SimpleOptions) => config.referenceFrame === 'bodyFixed',
+    })
+    .addNumberInput({
+      path: 'poleRa',
+      name: 'Pole Right Ascension (deg)',
+      defaultValue: 0,
+      category: ['Reference Frame'],
+      showIf: (config: SimpleOptions) => config.referenceFrame === 'bodyFixed' && config.bodyRotationSource !== 'quaternion',
+    })
+    .addNumberInput({
+      path: 'poleDec',
+      name: 'Pole Declination (deg)',
+      defaultValue: 90,
+      category: ['Reference Frame'],
+      showIf: (config: SimpleOptions) => config.referenceFrame === 'bodyFixed' && config.bodyRotationSource !== 'quaternion',
+    })
+    .addNumberInput({
+      path: 'rotationPeriod',
+      name: 'Rotation Period (hours)',
+      description: 'Negative for retrograde rotation',
+      defaultValue: 24,
+      category: ['Reference Frame'],
+      showIf: (config: SimpleOptions) => config.referenceFrame === 'bodyFixed' && config.bodyRotationSource !== 'quaternion',
+    })
+    .addTextInput({
+      path: 'rotationEpoch',
+      name: 'Rotation Epoch',
+      description: 'ISO 8601 time at which the prime meridian angle is W0 (default: J2000)',
+      defaultValue: '2000-01-01T12:00:00Z',
+      category: ['Reference Frame'],
+      showIf: (config: SimpleOptions) => config.referenceFrame === 'bodyFixed' && config.bodyRotationSource !== 'quaternion',
+    })
+    .addNumberInput({
+      path: 'rotationW0',
+      name: 'Prime Meridian at Epoch W0 (deg)',
+      defaultValue: 0,
+      category: ['Reference Frame'],
+      showIf: (config: SimpleOptions) => config.referenceFrame === 'bodyFixed' && config.bodyRotationSource !== 'quaternion',
+    })
+
     // Camera Settings
     .addCustomEditor({
       id: 'targetObject',
@@ -203,6 +363,33 @@ export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOption
       },
       category: ['Camera Settings'],
     })
+    .addRadio({
+      path: 'camera.floatingOrigin',
+      name: 'Floating Origin',
+      description: 'Re-center rendering on the target object or camera to keep precision in large-scale scenes',
+      defaultValue: 'off',
+      settings: {
+        options: [
+          { value: 'target', label: 'Target' },
+          { value: 'camera', label: 'Camera' },
+          { value: 'off', label: 'Off' },
+        ],
+      },
+      category: ['Camera Settings'],
+    })
+    .addRadio({
+      path: 'camera.logarithmicDepth',
+      name: 'Logarithmic Depth Buffer',
+      description: 'Avoid z-fighting when near and far objects differ by many orders of magnitude',
+      defaultValue: 'off',
+      settings: {
+        options: [
+          { value: 'on', label: 'On' },
+          { value: 'off', label: 'Off' },
+        ],
+      },
+      category: ['Camera Settings'],
+    })
 
     // Objects
     .addCustomEditor({
@@ -214,4 +401,20 @@ export const plugin = new PanelPlugin<SimpleOptions>(SimplePanel).setPanelOption
       defaultValue: [],
       category: ['Objects'],
     });
-});
+})
+  // Color scheme / Thresholds are used by spheres and polylines colored by a field
+  .useFieldConfig({
+    standardOptions: {
+      [FieldConfigProperty.Color]: {
+        settings: {
+          byValueSupport: true,
+          bySeriesSupport: false,
+          preferThresholdsMode: true,
+        },
+        defaultValue: {
+          mode: FieldColorModeId.Thresholds,
+        },
+      },
+    },
+    disableStandardOptions: [FieldConfigProperty.NoValue, FieldConfigProperty.Links, FieldConfigProperty.Actions, FieldConfigProperty.Filterable],
+  });
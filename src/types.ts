@@ -1,4 +1,4 @@
-export type ShapeType = 'sphere' | '3dmodel' | 'annotation' | 'polyline';
+export type ShapeType = 'sphere' | '3dmodel' | 'annotation' | 'polyline' | 'vector' | 'ellipsoid' | 'sensorFov' | 'safetyZone' | 'eclipseCone';
 export type DataSourceType = 'const' | 'field';
 
 export interface BaseShape {
@@ -6,6 +6,8 @@ export interface BaseShape {
   type: ShapeType;
   name: string;
   visible: boolean;
+  timeField?: string; // 値の時刻を決める時刻フィールド（未設定の場合は各シリーズの時刻フィールド）
+  timeJoin?: TimeJoinMode; // 時刻フィールドと異なる周期のシリーズの結合方法（デフォルト: 'previous'）
 }
 
 export interface DataField {
@@ -13,12 +15,39 @@ export interface DataField {
   value: string; // フィールド名またはConst値
 }
 
-export interface SphereShape extends BaseShape {
+export type InterpolationMode = 'none' | 'linear' | 'hermite';
+
+export type TimeJoinMode = 'previous' | 'nearest' | 'linear';
+
+export type TrailMode = 'off' | 'duration' | 'samples';
+
+// SphereとModelの軌跡表示設定
+export interface TrailSettings {
+  trailMode?: TrailMode; // 軌跡の範囲指定方法（デフォルト: 'off'）
+  trailLength?: number; // 'duration'の場合は分、'samples'の場合はサンプル数
+  trailColor?: string; // 未設定の場合はオブジェクトの色
+  trailFade?: 'on' | 'off'; // 古いサンプルほど透明にする
+  trailTickInterval?: number; // 時刻マーカーの間隔（秒、0で非表示）
+}
+
+export type ColorSource = 'fixed' | 'field';
+
+// SphereとPolylineの色をフィールドの値で決める設定（パネルのfieldConfigの配色・しきい値を使用）
+export interface FieldColorSettings {
+  colorSource?: ColorSource; // デフォルト: 'fixed'
+  colorField?: string; // 色を決めるフィールド（時刻フィールドも可）
+}
+
+export interface SphereShape extends BaseShape, TrailSettings, FieldColorSettings {
   type: 'sphere';
   color: string;
   posX: DataField;
   posY: DataField;
   posZ: DataField;
+  interpolation?: InterpolationMode; // サンプル間の位置補間（デフォルト: 'none'）
+  velX?: DataField; // エルミート補間用の速度（位置単位/秒）
+  velY?: DataField;
+  velZ?: DataField;
   autoRadius: 'on' | 'off';
   radius?: number; // autoRadius が 'off' の場合のみ使用
   autoScaleFactor?: number; // autoRadius が 'on' の場合のスケール調整値
@@ -35,20 +64,46 @@ export interface AnnotationShape extends BaseShape {
   lineDirection: 'normal' | 'inverted'; // 線の方向設定
 }
 
-export interface PolylineShape extends BaseShape {
+export type PolylineLineStyle = 'solid' | 'dashed' | 'dotted';
+
+export interface PolylineShape extends BaseShape, FieldColorSettings {
   type: 'polyline';
-  strokeSize: number;
+  strokeSize: number; // 線幅（ピクセル）
+  lineStyle?: PolylineLineStyle; // 線種（デフォルト: 'solid'、未来側の破線表示より優先度は低い）
   strokeColor: string;
   pointsX: DataField;
   pointsY: DataField;
   pointsZ: DataField;
   closePath: 'on' | 'off';
   smoothCurve: 'on' | 'off';
+  futureSplit?: 'off' | 'now' | 'sceneTime'; // 過去と未来（計画値）を分ける時刻（デフォルト: 'off'）
+  futureStyle?: 'dashed' | 'color'; // 未来側の描画方法
+  futureColor?: string; // 未来側の色（未設定の場合はstrokeColor）
 }
 
-export interface ModelShape extends BaseShape {
+export type ArticulationMode = 'angle' | 'quaternion';
+
+// モデル内の名前付きノード（太陽電池パドル・アンテナ等）をテレメトリで回転
+export interface ModelArticulation {
+  nodeName: string; // glTFのノード名
+  mode: ArticulationMode;
+  axisX: number; // 'angle'の場合の回転軸（ノードの親座標系）
+  axisY: number;
+  axisZ: number;
+  angle?: DataField; // 'angle'の場合の回転角
+  angleUnit?: 'deg' | 'rad'; // デフォルト: 'deg'
+  quatX?: DataField; // 'quaternion'の場合の回転（ノードの初期姿勢からの相対回転）
+  quatY?: DataField;
+  quatZ?: DataField;
+  quatW?: DataField;
+}
+
+export type ModelFormat = 'auto' | 'gltf' | 'obj' | 'stl' | 'ply' | 'icq' | 'plate';
+
+export interface ModelShape extends BaseShape, TrailSettings {
   type: '3dmodel';
   url: string;
+  modelFormat?: ModelFormat; // モデルの形式（'auto'の場合はURLの拡張子から判定）
   posX: DataField;
   posY: DataField;
   posZ: DataField;
@@ -56,13 +111,104 @@ export interface ModelShape extends BaseShape {
   quatY: DataField;
   quatZ: DataField;
   quatW: DataField;
+  interpolation?: InterpolationMode; // 位置の補間（姿勢は'none'以外でslerp）
+  velX?: DataField; // エルミート補間用の速度（位置単位/秒）
+  velY?: DataField;
+  velZ?: DataField;
   autoScale: 'on' | 'off';
   scale?: number; // autoScale が 'off' の場合のみ使用
   autoScaleFactor?: number; // autoScale が 'on' の場合のスケール調整値
   unit?: 'm' | 'km'; // モデルの単位設定（デフォルト: 'km'）
+  articulations?: ModelArticulation[]; // テレメトリで回転させる可動部
+  keepOriginalMaterials?: 'on' | 'off'; // 読み込んだマテリアルを照明向けに調整せずに使用
+  tintColor?: string; // マテリアルの色に乗算する色（未設定の場合は元の色）
+  opacity?: number; // 不透明度（0〜1、デフォルト: 1）
+  wireframe?: 'on' | 'off';
+  flatShading?: 'on' | 'off';
+}
+
+export interface VectorShape extends BaseShape {
+  type: 'vector';
+  color: string;
+  posX: DataField; // 矢印の始点
+  posY: DataField;
+  posZ: DataField;
+  vX: DataField; // 矢印の向き（速度・太陽方向・推力方向等）
+  vY: DataField;
+  vZ: DataField;
+  lengthScale: number; // 矢印の長さ = ベクトルの大きさ × lengthScale
+  showLabel: 'on' | 'off'; // 先端に大きさを表示
+  labelUnit?: string; // ラベルに付ける単位（例: m/s）
 }
 
-export type Shape = SphereShape | AnnotationShape | PolylineShape | ModelShape;
+export interface EllipsoidShape extends BaseShape {
+  type: 'ellipsoid';
+  color: string;
+  opacity: number; // 半透明表示の不透明度（0〜1）
+  posX: DataField; // 楕円体の中心（推定位置）
+  posY: DataField;
+  posZ: DataField;
+  source: 'covariance' | 'sigma'; // 半軸と向きの指定方法
+  covXX?: DataField; // 共分散行列の独立な6成分（位置単位の2乗）
+  covYY?: DataField;
+  covZZ?: DataField;
+  covXY?: DataField;
+  covXZ?: DataField;
+  covYZ?: DataField;
+  sigmaX?: DataField; // 各軸の1σ（位置単位）
+  sigmaY?: DataField;
+  sigmaZ?: DataField;
+  quatX?: DataField; // sigmaの軸の向き
+  quatY?: DataField;
+  quatZ?: DataField;
+  quatW?: DataField;
+  sigmaLevel: number; // 表示するσレベル（1σ、3σ等）
+}
+
+export interface SensorFovShape extends BaseShape {
+  type: 'sensorFov';
+  parentId: string; // 取り付け先の3DモデルのID（位置・姿勢に追従）
+  color: string;
+  opacity: number; // 視野領域の不透明度（0〜1）
+  boresightX: number; // 機体座標系の視軸方向（デフォルト: +Z）
+  boresightY: number;
+  boresightZ: number;
+  fovShape: 'circular' | 'rectangular'; // 円錐または四角錐
+  halfAngle: number; // 円錐の半頂角（度）
+  halfAngleX?: number; // 四角錐の半画角（度）
+  halfAngleY?: number;
+  range: number; // 視野の到達距離（位置単位）
+}
+
+export interface SafetyZoneShape extends BaseShape {
+  type: 'safetyZone';
+  zoneType: 'keepOut' | 'corridor'; // 進入禁止球または接近回廊（円錐）
+  targetId: string; // ゾーンの中心となるオブジェクトのID
+  chaserId: string; // 違反を判定するオブジェクトのID
+  color: string;
+  violationColor: string; // 違反時の色
+  opacity: number;
+  radius: number; // 進入禁止球の半径（位置単位）
+  corridorAxisX: number; // 回廊の軸方向（ターゲットの機体座標系、ターゲットから外向き）
+  corridorAxisY: number;
+  corridorAxisZ: number;
+  corridorHalfAngle: number; // 回廊の半頂角（度）
+  corridorLength: number; // 回廊の長さ（位置単位）
+}
+
+export interface EclipseConeShape extends BaseShape {
+  type: 'eclipseCone';
+  bodyId: string; // 影を作る天体のID
+  chaserId: string; // 影の中にいるかを判定するオブジェクトのID
+  bodyRadius: number; // 天体の半径（0の場合は球の半径またはモデルの外接球半径）
+  sunAngularRadius: number; // 天体から見た太陽の視半径（度）
+  coneLength: number; // 半影の描画長さ（0の場合は本影の長さ）
+  umbraColor: string;
+  penumbraColor: string;
+  opacity: number;
+}
+
+export type Shape = SphereShape | AnnotationShape | PolylineShape | ModelShape | VectorShape | EllipsoidShape | SensorFovShape | SafetyZoneShape | EclipseConeShape;
 
 export type AxisDisplayMode = 'all' | 'axis' | 'none';
 
@@ -93,10 +239,25 @@ export interface CameraSettings {
   distance?: DataField; // カメラとターゲット間の距離（参考用、オプション）
   enableControls: 'on' | 'off'; // カメラ制御の有効/無効
   showPositionAndDistance: 'on' | 'off'; // 位置と距離表示の有効/無効
+  floatingOrigin?: 'off' | 'target' | 'camera'; // 描画原点をターゲットまたはカメラ付近に移動（浮動原点）
+  logarithmicDepth?: 'on' | 'off'; // 対数深度バッファの有効/無効
   // Axis preset trigger (used internally by CameraAxisEditor)
   axisTrigger?: any;
 }
 
+export type SunDirectionSource = 'fixed' | 'vector' | 'position';
+
+// 並行光源（太陽光）の方向設定
+export interface SunLightSettings {
+  source: SunDirectionSource; // 固定 / 太陽方向ベクトル / 太陽の位置（ターゲットからの方向を計算）
+  sunX: DataField;
+  sunY: DataField;
+  sunZ: DataField;
+  timeField?: string; // 太陽方向を参照する時刻フィールド
+  showIndicator: 'on' | 'off'; // 注視点に太陽方向の矢印を表示
+  indicatorColor?: string;
+}
+
 export interface ViewAngleScalingSettings {
   targetAngularSize: number; // ラジアン単位（デフォルト: 0.02）
   minSize: number; // 最小サイズ（デフォルト: 0.1）
@@ -107,11 +268,15 @@ export interface SimpleOptions {
   // Basic Settings
   showAxis?: 'on' | 'off';
   backgroundColor?: string;
+  colorLegend?: 'on' | 'off'; // フィールドの値で色を決めるオブジェクトの凡例
   
   // Lighting Settings
   directionalLightIntensity?: number;
   ambientLightIntensity?: number;
   environmentMapIntensity?: number;
+  sunLight?: SunLightSettings; // 並行光源の方向（太陽方向）
+  shadowMode?: 'off' | 'fitted'; // 影の描画（fitted: チェイサーの影をターゲットに落とす）
+  shadowCasterId?: string; // 影を落とすオブジェクト（チェイサー）のID
   
   // Camera Settings
   camera?: CameraSettings;
@@ -120,6 +285,20 @@ export interface SimpleOptions {
   // View Angle Scaling Settings
   viewAngleScaling?: ViewAngleScalingSettings;
   
+  // Time Settings
+  timeCursor?: 'on' | 'off'; // シーン時刻スライダーの表示
+  cursorSync?: 'on' | 'off'; // ダッシュボードの共有クロスヘアとシーン時刻を同期
+  
+  // Reference Frame Settings
+  referenceFrame?: 'inertial' | 'lvlh' | 'bodyFixed'; // シーンの基準座標系
+  frameCenterId?: string; // LVLH・天体固定座標系の基準オブジェクトID
+  bodyRotationSource?: 'pole' | 'quaternion'; // 天体固定座標系の自転の指定方法
+  poleRa?: number; // 北極の赤経（度）
+  poleDec?: number; // 北極の赤緯（度）
+  rotationPeriod?: number; // 自転周期（時間）
+  rotationEpoch?: string; // 自転角の基準時刻（ISO 8601、デフォルト: J2000）
+  rotationW0?: number; // 基準時刻における本初子午線の角度（度）
+  
   // Objects
   objects?: Shape[];
 }